@@ -0,0 +1,200 @@
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+import { BOT_POLICIES, type BotPolicyId, type BotRoundResult, runBotRound } from "@/lib/game/bots";
+import { HERO_POOL, WEAPON_POOL } from "@/lib/game/content";
+import {
+  AIM_MODES,
+  type AimMode,
+  ARENA_IDS,
+  type ArenaId,
+  GAME_MODE_IDS,
+  type GameModeId,
+  WEAPON_IDS,
+  type WeaponId,
+} from "@/lib/profile";
+
+const USAGE = `Usage: npm run bots -- [options]
+
+  --rounds <n>        Rounds per hero x weapon x policy (default 50)
+  --max-seconds <n>   Cap on simulated survival time per round (default 300)
+  --seed <n>          First seed; round i uses seed + i for every combination (default 1, may be 0)
+  --policy <id>       Only run one policy: ${BOT_POLICIES.join(", ")}
+  --mode <id>         Game mode: ${GAME_MODE_IDS.join(", ")} (default endless)
+  --arena <id>        Arena: ${ARENA_IDS.join(", ")} (default yard)
+  --secondary <id>    Secondary weapon for every loadout: ${WEAPON_IDS.join(", ")} (default none)
+  --aim <mode>        Aim mode: ${AIM_MODES.join(", ")} (default auto); manual modes aim at the closest enemy
+  --format <csv|json> Output format (default csv)
+  --out <path>        Write results to a file instead of stdout
+`;
+
+const CSV_COLUMNS: (keyof BotRoundResult)[] = [
+  "heroId",
+  "weaponId",
+  "secondaryWeaponId",
+  "modeId",
+  "arenaId",
+  "aimMode",
+  "policy",
+  "seed",
+  "survivalSeconds",
+  "survived",
+  "score",
+  "kills",
+  "level",
+  "intensity",
+  "rewardCredits",
+  "rewardCrystals",
+];
+
+function readPositive(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive number.`);
+  }
+  return Math.floor(parsed);
+}
+
+function readNonNegative(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be zero or a positive number.`);
+  }
+  return Math.floor(parsed);
+}
+
+function toCsv(results: BotRoundResult[]): string {
+  const rows = results.map((result) => CSV_COLUMNS.map((column) => String(result[column] ?? "")).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function printSummary(results: BotRoundResult[]): void {
+  const groups = new Map<string, BotRoundResult[]>();
+  for (const result of results) {
+    const key = `${result.heroId}/${result.weaponId}/${result.policy}`;
+    groups.set(key, [...(groups.get(key) ?? []), result]);
+  }
+
+  console.error("hero/weapon/policy".padEnd(28) + "survival  score    kills  level  intensity  credits");
+  for (const [key, group] of groups) {
+    console.error(
+      key.padEnd(28) +
+        `${average(group.map((entry) => entry.survivalSeconds)).toFixed(1)}s`.padEnd(10) +
+        average(group.map((entry) => entry.score)).toFixed(0).padEnd(9) +
+        average(group.map((entry) => entry.kills)).toFixed(1).padEnd(7) +
+        average(group.map((entry) => entry.level)).toFixed(1).padEnd(7) +
+        average(group.map((entry) => entry.intensity)).toFixed(2).padEnd(11) +
+        average(group.map((entry) => entry.rewardCredits)).toFixed(1),
+    );
+  }
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      rounds: { type: "string" },
+      "max-seconds": { type: "string" },
+      seed: { type: "string" },
+      policy: { type: "string" },
+      mode: { type: "string" },
+      arena: { type: "string" },
+      secondary: { type: "string" },
+      aim: { type: "string" },
+      format: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const rounds = readPositive(values.rounds, 50, "rounds");
+  const maxSeconds = readPositive(values["max-seconds"], 300, "max-seconds");
+  const baseSeed = readNonNegative(values.seed, 1, "seed");
+  const format = values.format ?? "csv";
+  if (format !== "csv" && format !== "json") {
+    throw new Error("--format must be csv or json.");
+  }
+
+  const policies = values.policy ? [values.policy as BotPolicyId] : BOT_POLICIES;
+  if (!policies.every((policy) => BOT_POLICIES.includes(policy))) {
+    throw new Error(`--policy must be one of ${BOT_POLICIES.join(", ")}.`);
+  }
+
+  const modeId = (values.mode ?? "endless") as GameModeId;
+  if (!GAME_MODE_IDS.includes(modeId)) {
+    throw new Error(`--mode must be one of ${GAME_MODE_IDS.join(", ")}.`);
+  }
+
+  const arenaId = (values.arena ?? "yard") as ArenaId;
+  if (!ARENA_IDS.includes(arenaId)) {
+    throw new Error(`--arena must be one of ${ARENA_IDS.join(", ")}.`);
+  }
+
+  const secondaryWeaponId = (values.secondary ?? null) as WeaponId | null;
+  if (secondaryWeaponId !== null && !WEAPON_IDS.includes(secondaryWeaponId)) {
+    throw new Error(`--secondary must be one of ${WEAPON_IDS.join(", ")}.`);
+  }
+
+  const aimMode = (values.aim ?? "auto") as AimMode;
+  if (!AIM_MODES.includes(aimMode)) {
+    throw new Error(`--aim must be one of ${AIM_MODES.join(", ")}.`);
+  }
+
+  const results: BotRoundResult[] = [];
+  const startedAt = Date.now();
+  for (const hero of HERO_POOL) {
+    for (const weapon of WEAPON_POOL) {
+      for (const policy of policies) {
+        for (let index = 0; index < rounds; index += 1) {
+          results.push(
+            runBotRound({
+              heroId: hero.id,
+              weaponId: weapon.id,
+              policy,
+              seed: baseSeed + index,
+              maxSeconds,
+              modeId,
+              arenaId,
+              secondaryWeaponId,
+              aimMode,
+            }),
+          );
+        }
+      }
+    }
+  }
+
+  const output = format === "json" ? JSON.stringify(results, null, 2) + "\n" : toCsv(results);
+  if (values.out) {
+    writeFileSync(values.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  printSummary(results);
+  console.error(`${results.length} rounds simulated in ${((Date.now() - startedAt) / 1000).toFixed(1)}s.`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exitCode = 1;
+}
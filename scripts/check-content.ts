@@ -0,0 +1,80 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+import type { ContentPack } from "@/lib/game/content";
+import { applyContentPack, formatContentErrors, validateContentPack } from "@/lib/game/content-schema";
+import basePack from "@/lib/game/packs/base.json";
+import seasonalManifest from "@/lib/game/packs/seasonal.json";
+
+const USAGE = `Usage: npm run content:check -- [pack.json ...]
+
+Validates the base content pack and every seasonal pack inlined in packs/seasonal.json, then
+layers each given pack over them in order and validates the result. Exits non-zero and lists
+every error path when a pack is invalid.
+`;
+
+function readPack(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`${path}: ${error instanceof Error ? error.message : "could not be read"}`);
+  }
+}
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      help: { type: "boolean" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const base = validateContentPack(basePack);
+  if (!base.ok) {
+    throw new Error(`base pack is invalid:\n${formatContentErrors(base.errors)}`);
+  }
+  console.log("base: ok");
+
+  // Mirrors loadContent: every manifest pack is checked, and an invalid one is skipped rather than layered.
+  const seasonalPacks = seasonalManifest.packs as unknown[];
+  if (seasonalPacks.length === 0) {
+    console.log("seasonal manifest: no packs");
+  }
+
+  let content: ContentPack = base.pack;
+  let invalidPacks = 0;
+  for (const [index, pack] of seasonalPacks.entries()) {
+    const applied = applyContentPack(content, pack);
+    if (!applied.ok) {
+      console.error(`seasonal pack ${index + 1} is invalid:\n${formatContentErrors(applied.errors)}`);
+      invalidPacks += 1;
+      continue;
+    }
+    content = applied.pack;
+    console.log(`seasonal pack ${index + 1} (${content.id}): ok`);
+  }
+  if (invalidPacks > 0) {
+    process.exitCode = 1;
+  }
+
+  for (const path of positionals) {
+    const applied = applyContentPack(content, readPack(path));
+    if (!applied.ok) {
+      throw new Error(`${path} is invalid:\n${formatContentErrors(applied.errors)}`);
+    }
+    content = applied.pack;
+    console.log(`${path}: ok`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
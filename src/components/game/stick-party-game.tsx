@@ -12,10 +12,18 @@ import {
 } from "@/lib/economy";
 import { formatInt, formatSeconds } from "@/lib/format";
 import {
+  AIM_MODES,
+  type AimMode,
   appendProfileEvent,
+  type ArenaId,
   type DailyMissionProgress,
+  type GameModeId,
+  getMasteryLevel,
+  getMasteryPoints,
   type LeaderboardEntry,
   loadProfile,
+  MASTERY_LEVEL_POINTS,
+  MAX_MASTERY_LEVEL,
   type MetaUpgradeLevels,
   refreshDailyCounters,
   saveProfile,
@@ -24,139 +32,128 @@ import {
   type SessionEventName,
   type WeaponId,
 } from "@/lib/profile";
-
-type GamePhase = "home" | "playing" | "game_over";
-type EnemyType = "runner" | "zigzag" | "brute";
-type PickupKind = "shield" | "frenzy" | "stasis";
-type UpgradeId = "rapid_fire" | "power_shot" | "speed_boost" | "multi_shot" | "dash_core" | "magnet";
-type HeroId = "viper" | "titan" | "nova" | "arc";
-
-interface Enemy {
-  id: number;
-  x: number;
-  y: number;
-  radius: number;
-  baseSpeed: number;
-  hue: number;
-  hp: number;
-  maxHp: number;
-  type: EnemyType;
-  wobble: number;
-  drift: number;
-  elite: boolean;
-}
-
-interface Projectile {
-  id: number;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  ttl: number;
-  damage: number;
-  radius: number;
-  pierce: number;
-}
-
-interface Orb {
-  id: number;
-  x: number;
-  y: number;
-  radius: number;
-  xp: number;
-  score: number;
-  ttl: number;
-}
-
-interface Pickup {
-  id: number;
-  x: number;
-  y: number;
-  radius: number;
-  ttl: number;
-  kind: PickupKind;
-}
-
-interface BuildState {
-  moveSpeed: number;
-  fireInterval: number;
-  shotDamage: number;
-  multiShot: number;
-  dashCooldown: number;
-  pickupRadius: number;
-  maxShield: number;
-  shield: number;
-}
-
-interface RoundState {
-  heroId: HeroId;
-  weaponId: WeaponId;
-  playerX: number;
-  playerY: number;
-  playerRadius: number;
-  enemies: Enemy[];
-  projectiles: Projectile[];
-  orbs: Orb[];
-  pickups: Pickup[];
-  elapsed: number;
-  score: number;
-  spawnClock: number;
-  spawnedEnemies: number;
-  kills: number;
+import {
+  type ArenaDefinition,
+  type ArenaPalette,
+  ARENAS,
+  getArena,
+  getLaserLane,
+  getWindDirection,
+  isLaserLive,
+} from "@/lib/game/arenas";
+import {
+  BOSS_ENEMY,
+  DAILY_MISSIONS,
+  getEnemyDefinition,
+  getHero,
+  getMasteryColor,
+  getUpgrade,
+  getWeapon,
+  HERO_POOL,
+  type HeroId,
+  isEvolution,
+  META_UPGRADES,
+  type MetaUpgradeDefinition,
+  type UpgradeDefinition,
+  type UpgradeId,
+  WAVE_SCRIPT,
+  type WeaponDefinition,
+  WEAPON_POOL,
+} from "@/lib/game/content";
+import {
+  createRoundSnapshot,
+  type EnemySnapshot,
+  type HostileProjectileSnapshot,
+  type OrbSnapshot,
+  type PickupSnapshot,
+  type ProjectileSnapshot,
+  type RoundSnapshot,
+  type SimulationUpdate,
+} from "@/lib/game/live-session";
+import { clamp, lerp, randomInRange } from "@/lib/game/math";
+import { GAME_MODES, getGameMode } from "@/lib/game/modes";
+import type { Obstacle } from "@/lib/game/obstacles";
+import {
+  advanceSeek,
+  captureInput,
+  createEmptyReplayLibrary,
+  createPlayback,
+  findReplay,
+  loadReplayLibrary,
+  type ReplayLibrary,
+  type ReplayPlayback,
+  type RunReplay,
+  saveReplayLibrary,
+  seekPlayback,
+  stepPlayback,
+  storeReplay,
+} from "@/lib/game/replay";
+import { createSeed } from "@/lib/game/rng";
+import { createSimulationHost, type SimulationHost } from "@/lib/game/simulation-host";
+import {
+  ARENA_HEIGHT,
+  ARENA_WIDTH,
+  DEFAULT_META_UPGRADES,
+  type EntityPoolStats,
+  getEntityPoolStats,
+  getUpgradeLevel,
+  type KeyboardState,
+  type LevelUpAction,
+  MAX_FRAME_SECONDS,
+  type PointerState,
+  resetRound,
+  type RoundAction,
+  type RoundEvent,
+  SIMULATION_STEP_SECONDS,
+  VIEW_HEIGHT,
+  VIEW_WIDTH,
+} from "@/lib/game/simulation";
+
+type GamePhase = "home" | "playing" | "game_over" | "replay";
+type WeaponSlot = "primary" | "secondary";
+
+// `level` is how many levels the player already holds.
+interface UpgradeOffer {
+  upgrade: UpgradeDefinition;
   level: number;
-  xp: number;
-  xpToNext: number;
-  combo: number;
-  comboExpireAt: number;
-  bestCombo: number;
-  lastShotAt: number;
-  dashReadyAt: number;
-  dashingUntil: number;
-  dashDirX: number;
-  dashDirY: number;
-  invulnerableUntil: number;
-  powerCharge: number;
-  frenzyUntil: number;
-  stasisUntil: number;
-  nextEliteAt: number;
-  contractTarget: number;
-  contractProgress: number;
-  contractExpireAt: number;
-  nextContractAt: number;
-  powerGainScale: number;
-  build: BuildState;
-  upgrades: UpgradeId[];
 }
 
 interface RoundSummary {
+  modeId: GameModeId;
+  arenaId: ArenaId;
+  cleared: boolean;
   score: number;
   survivalSeconds: number;
   spawnedEnemies: number;
   kills: number;
   level: number;
   bestCombo: number;
+  bossesDefeated: number;
   rewardCredits: number;
   rewardCrystals: number;
   isBestScore: boolean;
+  isArenaBest: boolean;
+  unlockedArenas: ArenaId[];
+  // Set when the run raised the weapon's mastery level, with the perks that level unlocked.
+  masteryLevelUp: number | null;
+  masteryPerks: string[];
+  build: UpgradeOffer[];
+  seed: number;
+  replayId: string | null;
 }
 
-interface KeyboardState {
-  up: boolean;
-  down: boolean;
-  left: boolean;
-  right: boolean;
-}
-
-interface PointerState {
-  active: boolean;
-  x: number;
-  y: number;
+// World position of the canvas's top-left corner.
+interface CameraView {
+  left: number;
+  top: number;
 }
 
 interface LiveStats {
   heroId: HeroId;
   heroName: string;
   weaponName: string;
+  modeName: string;
+  arenaName: string;
   level: number;
   combo: number;
   kills: number;
@@ -166,212 +163,29 @@ interface LiveStats {
   xp: number;
   xpToNext: number;
   upgrades: number;
+  rerollsLeft: number;
+  banishesLeft: number;
   contractLabel: string;
 }
 
-interface UpgradeDefinition {
-  id: UpgradeId;
-  title: string;
-  description: string;
-}
-
-interface HeroDefinition {
-  id: HeroId;
-  name: string;
-  role: string;
-  description: string;
-  moveScale: number;
-  fireScale: number;
-  damageBonus: number;
-  extraShield: number;
-  dashScale: number;
-  color: string;
-}
-
-interface WeaponDefinition {
-  id: WeaponId;
-  name: string;
-  description: string;
-  unlockCredits: number;
-  unlockCrystals: number;
-}
-
-interface MetaUpgradeDefinition {
-  id: keyof MetaUpgradeLevels;
-  title: string;
-  description: string;
-  maxLevel: number;
-  baseCreditCost: number;
-  baseCrystalCost: number;
-}
-
-interface DailyMissionDefinition {
-  id: string;
-  label: string;
-  description: string;
-  metric: keyof DailyMissionProgress;
-  goal: number;
-  rewardCredits: number;
-  rewardCrystals: number;
-}
-
-const UPGRADE_POOL: UpgradeDefinition[] = [
-  { id: "rapid_fire", title: "Rapid Fire", description: "Shoot faster." },
-  { id: "power_shot", title: "Power Shot", description: "Projectile damage +1." },
-  { id: "speed_boost", title: "Speed Boost", description: "Movement speed +12%." },
-  { id: "multi_shot", title: "Multi Shot", description: "One extra projectile each volley." },
-  { id: "dash_core", title: "Dash Core", description: "Dash cooldown reduced." },
-  { id: "magnet", title: "Magnet", description: "Collect XP from farther away." },
-];
-
-const HERO_POOL: HeroDefinition[] = [
-  {
-    id: "viper",
-    name: "Viper",
-    role: "Skirmisher",
-    description: "Fast duelist with sharp dashes. Power: Blade Storm for burst clear.",
-    moveScale: 1.14,
-    fireScale: 1.06,
-    damageBonus: 0,
-    extraShield: 0,
-    dashScale: 0.82,
-    color: "#9af2c2",
-  },
-  {
-    id: "titan",
-    name: "Titan",
-    role: "Defender",
-    description: "Heavy frontline. Power: Fortress Guard for max shield and invulnerability.",
-    moveScale: 0.9,
-    fireScale: 0.93,
-    damageBonus: 1,
-    extraShield: 1,
-    dashScale: 1.2,
-    color: "#ffcd8f",
-  },
-  {
-    id: "nova",
-    name: "Nova",
-    role: "Blaster",
-    description: "Aggressive ranged burst. Power: Solar Ring fires radial shot burst.",
-    moveScale: 1,
-    fireScale: 1.15,
-    damageBonus: 0,
-    extraShield: 0,
-    dashScale: 1,
-    color: "#ffd787",
-  },
-  {
-    id: "arc",
-    name: "Arc",
-    role: "Controller",
-    description: "Battle mage utility. Power: Arc Storm zaps elites and freezes the field.",
-    moveScale: 0.98,
-    fireScale: 1,
-    damageBonus: 0,
-    extraShield: 0,
-    dashScale: 0.95,
-    color: "#a6ceff",
-  },
-];
-
-const WEAPON_POOL: WeaponDefinition[] = [
-  {
-    id: "pulse",
-    name: "Pulse Blaster",
-    description: "Balanced automatic fire with stable accuracy.",
-    unlockCredits: 0,
-    unlockCrystals: 0,
-  },
-  {
-    id: "scatter",
-    name: "Scatter Shot",
-    description: "Wide cone blast that shreds close pressure.",
-    unlockCredits: 320,
-    unlockCrystals: 2,
-  },
-  {
-    id: "lance",
-    name: "Lance Cannon",
-    description: "Heavy piercing shots for elite and brute control.",
-    unlockCredits: 520,
-    unlockCrystals: 4,
-  },
-];
-
-const META_UPGRADES: MetaUpgradeDefinition[] = [
-  {
-    id: "armor",
-    title: "Armor Matrix",
-    description: "Starts each run with extra shield capacity.",
-    maxLevel: 6,
-    baseCreditCost: 190,
-    baseCrystalCost: 1,
-  },
-  {
-    id: "agility",
-    title: "Thruster Core",
-    description: "Run speed up and dash cooldown down.",
-    maxLevel: 6,
-    baseCreditCost: 170,
-    baseCrystalCost: 1,
-  },
-  {
-    id: "reactor",
-    title: "Reactor Tuning",
-    description: "Hero power charges faster every run.",
-    maxLevel: 6,
-    baseCreditCost: 210,
-    baseCrystalCost: 1,
-  },
-];
-
-const DAILY_MISSIONS: DailyMissionDefinition[] = [
-  {
-    id: "daily_kills",
-    label: "Target Sweep",
-    description: "Defeat 120 enemies today.",
-    metric: "kills",
-    goal: 120,
-    rewardCredits: 280,
-    rewardCrystals: 1,
-  },
-  {
-    id: "daily_survival",
-    label: "Long Run",
-    description: "Accumulate 240s survival time today.",
-    metric: "survivalSeconds",
-    goal: 240,
-    rewardCredits: 220,
-    rewardCrystals: 1,
-  },
-  {
-    id: "daily_matches",
-    label: "Arena Habit",
-    description: "Play 5 matches today.",
-    metric: "matches",
-    goal: 5,
-    rewardCredits: 180,
-    rewardCrystals: 1,
-  },
-];
-
-const CANVAS_WIDTH = 960;
-const CANVAS_HEIGHT = 540;
-const PLAYER_SPEED = 242;
-const PROJECTILE_SPEED = 460;
-const MIN_SPAWN_DELAY = 0.3;
-const START_SPAWN_DELAY = 1.14;
-const PROJECTILE_TTL = 1.6;
+const CANVAS_WIDTH = VIEW_WIDTH;
+const CANVAS_HEIGHT = VIEW_HEIGHT;
+const SHOW_DEBUG_HUD = process.env.NODE_ENV !== "production";
 const AD_DURATION_SECONDS = 6;
-const COMBO_WINDOW_SECONDS = 2.7;
-const DASH_DURATION_SECONDS = 0.24;
-const DASH_MULTIPLIER = 2.8;
+const AIM_STICK_DEADZONE = 0.25;
+
+const AIM_MODE_LABELS: Record<AimMode, { name: string; description: string }> = {
+  auto: { name: "Auto Aim", description: "Fires at the nearest visible enemy." },
+  mouse: { name: "Mouse", description: "Hold a mouse button to fire at the cursor. Move with WASD." },
+  twin_stick: { name: "Twin Stick", description: "Move with WASD, aim and fire with the arrow keys or right stick." },
+};
 
 const LIVE_STATS_DEFAULT: LiveStats = {
   heroId: "viper",
   heroName: "Viper",
   weaponName: "Pulse Blaster",
+  modeName: "Endless",
+  arenaName: "Training Yard",
   level: 1,
   combo: 1,
   kills: 0,
@@ -381,15 +195,11 @@ const LIVE_STATS_DEFAULT: LiveStats = {
   xp: 0,
   xpToNext: 70,
   upgrades: 0,
+  rerollsLeft: 0,
+  banishesLeft: 0,
   contractLabel: "No contract",
 };
 
-const DEFAULT_META_UPGRADES: MetaUpgradeLevels = {
-  armor: 0,
-  agility: 0,
-  reactor: 0,
-};
-
 type FullscreenDocument = Document & {
   webkitExitFullscreen?: () => Promise<void> | void;
   webkitFullscreenElement?: Element | null;
@@ -406,38 +216,6 @@ const EMPTY_REWARDED_STATUS: RewardedStatus = {
   reason: "none",
 };
 
-let entityId = 0;
-function nextId(): number {
-  entityId += 1;
-  return entityId;
-}
-
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
-}
-
-function randomInRange(min: number, max: number): number {
-  return min + Math.random() * (max - min);
-}
-
-function normalize(dx: number, dy: number): { x: number; y: number } {
-  const magnitude = Math.hypot(dx, dy);
-  if (magnitude <= 0.0001) {
-    return { x: 0, y: 0 };
-  }
-
-  return { x: dx / magnitude, y: dy / magnitude };
-}
-
-function rotate(x: number, y: number, radians: number): { x: number; y: number } {
-  const cos = Math.cos(radians);
-  const sin = Math.sin(radians);
-  return {
-    x: x * cos - y * sin,
-    y: x * sin + y * cos,
-  };
-}
-
 function isTextEntryTarget(target: EventTarget | null): boolean {
   if (!(target instanceof HTMLElement)) {
     return false;
@@ -491,79 +269,7 @@ async function exitNativeFullscreen(doc: FullscreenDocument = document): Promise
   return false;
 }
 
-function getHero(heroId: HeroId): HeroDefinition {
-  return HERO_POOL.find((hero) => hero.id === heroId) ?? HERO_POOL[0];
-}
-
-function getWeapon(weaponId: WeaponId): WeaponDefinition {
-  return WEAPON_POOL.find((weapon) => weapon.id === weaponId) ?? WEAPON_POOL[0];
-}
-
-function createBaseBuild(heroId: HeroId, metaUpgrades: MetaUpgradeLevels): BuildState {
-  const hero = getHero(heroId);
-  const baseShield = Math.max(1, 1 + hero.extraShield + metaUpgrades.armor);
-  const agilityBoost = metaUpgrades.agility * 0.065;
-  const dashReduction = Math.min(0.28, metaUpgrades.agility * 0.045);
-
-  return {
-    moveSpeed: hero.moveScale + agilityBoost,
-    fireInterval: Math.max(0.18, 0.52 / hero.fireScale),
-    shotDamage: Math.max(1, 1 + hero.damageBonus),
-    multiShot: 1,
-    dashCooldown: Math.max(1.95, 4.8 * hero.dashScale * (1 - dashReduction)),
-    pickupRadius: 28,
-    maxShield: baseShield,
-    shield: baseShield,
-  };
-}
-
-function resetRound(
-  heroId: HeroId = "viper",
-  weaponId: WeaponId = "pulse",
-  metaUpgrades: MetaUpgradeLevels = DEFAULT_META_UPGRADES,
-): RoundState {
-  return {
-    heroId,
-    weaponId,
-    playerX: CANVAS_WIDTH / 2,
-    playerY: CANVAS_HEIGHT / 2,
-    playerRadius: 12,
-    enemies: [],
-    projectiles: [],
-    orbs: [],
-    pickups: [],
-    elapsed: 0,
-    score: 0,
-    spawnClock: 0,
-    spawnedEnemies: 0,
-    kills: 0,
-    level: 1,
-    xp: 0,
-    xpToNext: 70,
-    combo: 1,
-    comboExpireAt: 0,
-    bestCombo: 1,
-    lastShotAt: 0,
-    dashReadyAt: 0,
-    dashingUntil: 0,
-    dashDirX: 1,
-    dashDirY: 0,
-    invulnerableUntil: 0,
-    powerCharge: 0,
-    frenzyUntil: 0,
-    stasisUntil: 0,
-    nextEliteAt: randomInRange(30, 38),
-    contractTarget: 0,
-    contractProgress: 0,
-    contractExpireAt: 0,
-    nextContractAt: randomInRange(18, 26),
-    powerGainScale: 1 + metaUpgrades.reactor * 0.12,
-    build: createBaseBuild(heroId, metaUpgrades),
-    upgrades: [],
-  };
-}
-
-function formatContractLabel(round: RoundState): string {
+function formatContractLabel(round: RoundSnapshot): string {
   if (round.contractTarget <= 0) {
     return "No contract";
   }
@@ -572,11 +278,13 @@ function formatContractLabel(round: RoundState): string {
   return `Contract ${round.contractProgress}/${round.contractTarget} (${timeLeft.toFixed(0)}s)`;
 }
 
-function toLiveStats(round: RoundState): LiveStats {
+function toLiveStats(round: RoundSnapshot): LiveStats {
   return {
     heroId: round.heroId,
     heroName: getHero(round.heroId).name,
-    weaponName: getWeapon(round.weaponId).name,
+    weaponName: formatWeaponLoadout(round.weaponId, round.secondaryWeaponId),
+    modeName: getGameMode(round.modeId).name,
+    arenaName: getArena(round.arenaId).name,
     level: round.level,
     combo: round.combo,
     kills: round.kills,
@@ -585,117 +293,34 @@ function toLiveStats(round: RoundState): LiveStats {
     power: clamp(round.powerCharge, 0, 100),
     xp: round.xp,
     xpToNext: round.xpToNext,
-    upgrades: round.upgrades.length,
+    upgrades: round.upgrades.reduce((total, upgradeId) => total + getUpgradeLevel(round, upgradeId), 0),
+    rerollsLeft: round.rerollsLeft,
+    banishesLeft: round.banishesLeft,
     contractLabel: formatContractLabel(round),
   };
 }
 
-function createEnemy(elapsed: number, forcedElite = false): Enemy {
-  const side = Math.floor(Math.random() * 4);
-  let x = 0;
-  let y = 0;
-
-  if (side === 0) {
-    x = randomInRange(-35, CANVAS_WIDTH + 35);
-    y = -42;
-  } else if (side === 1) {
-    x = CANVAS_WIDTH + 42;
-    y = randomInRange(-35, CANVAS_HEIGHT + 35);
-  } else if (side === 2) {
-    x = randomInRange(-35, CANVAS_WIDTH + 35);
-    y = CANVAS_HEIGHT + 42;
-  } else {
-    x = -42;
-    y = randomInRange(-35, CANVAS_HEIGHT + 35);
-  }
-
-  const roll = Math.random();
-  const shouldElite = forcedElite || (elapsed > 65 && roll < 0.07);
-  const enemyType: EnemyType =
-    shouldElite || (elapsed > 50 && roll < 0.2) ? "brute" : elapsed > 20 && roll < 0.48 ? "zigzag" : "runner";
-
-  if (enemyType === "brute") {
-    const eliteBoost = shouldElite ? 1.65 : 1;
-    return {
-      id: nextId(),
-      x,
-      y,
-      radius: randomInRange(18, 24) * eliteBoost,
-      baseSpeed: (randomInRange(49, 64) + elapsed * 1.1) * (shouldElite ? 1.08 : 1),
-      hue: shouldElite ? 276 : 29,
-      hp: shouldElite ? 12 : 6,
-      maxHp: shouldElite ? 12 : 6,
-      type: enemyType,
-      wobble: randomInRange(0, Math.PI * 2),
-      drift: randomInRange(0.2, 0.45),
-      elite: shouldElite,
-    };
-  }
-
-  if (enemyType === "zigzag") {
-    return {
-      id: nextId(),
-      x,
-      y,
-      radius: randomInRange(12, 16),
-      baseSpeed: randomInRange(82, 104) + elapsed * 2,
-      hue: 194,
-      hp: 3,
-      maxHp: 3,
-      type: enemyType,
-      wobble: randomInRange(0, Math.PI * 2),
-      drift: randomInRange(36, 56),
-      elite: false,
-    };
-  }
-
-  return {
-    id: nextId(),
-    x,
-    y,
-    radius: randomInRange(10, 14),
-    baseSpeed: randomInRange(65, 90) + elapsed * 1.8,
-    hue: 6,
-    hp: 2,
-    maxHp: 2,
-    type: enemyType,
-    wobble: randomInRange(0, Math.PI * 2),
-    drift: randomInRange(0.2, 0.5),
-    elite: false,
-  };
+function formatUpgradeLevel(upgrade: UpgradeDefinition, level: number): string {
+  return isEvolution(upgrade) ? "Evolved" : `Lv ${level}/${upgrade.maxLevel}`;
 }
 
-function pickUpgradeChoices(): UpgradeDefinition[] {
-  const pool = [...UPGRADE_POOL];
-  for (let i = pool.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [pool[i], pool[j]] = [pool[j], pool[i]];
-  }
-
-  return pool.slice(0, 3);
+// "Pulse Blaster + Scatter Shot" when a secondary weapon is equipped.
+function formatWeaponLoadout(weaponId: WeaponId, secondaryWeaponId: WeaponId | null): string {
+  const primary = getWeapon(weaponId).name;
+  return secondaryWeaponId ? `${primary} + ${getWeapon(secondaryWeaponId).name}` : primary;
 }
 
-function applyUpgrade(round: RoundState, id: UpgradeId): string {
-  if (!round.upgrades.includes(id)) {
-    round.upgrades.push(id);
-  }
-
-  if (id === "rapid_fire") {
-    round.build.fireInterval = Math.max(0.14, round.build.fireInterval * 0.84);
-  } else if (id === "power_shot") {
-    round.build.shotDamage += 1;
-  } else if (id === "speed_boost") {
-    round.build.moveSpeed = Math.min(1.9, round.build.moveSpeed + 0.12);
-  } else if (id === "multi_shot") {
-    round.build.multiShot = Math.min(4, round.build.multiShot + 1);
-  } else if (id === "dash_core") {
-    round.build.dashCooldown = Math.max(2.1, round.build.dashCooldown * 0.84);
-  } else if (id === "magnet") {
-    round.build.pickupRadius = Math.min(240, round.build.pickupRadius + 30);
+// "Mastery 2/5 | 520/900 pts | Next: Hardened Core" for the weapon picker.
+function formatMastery(weapon: WeaponDefinition, profile: PlayerProfile | null): string {
+  const mastery = profile?.weaponMastery[weapon.id] ?? { kills: 0, playSeconds: 0 };
+  const level = getMasteryLevel(mastery);
+  if (level >= MAX_MASTERY_LEVEL) {
+    return `Mastery ${level}/${MAX_MASTERY_LEVEL} | Mastered`;
   }
 
-  const def = UPGRADE_POOL.find((item) => item.id === id);
-  return def?.title ?? "Upgrade";
+  const nextPerk = weapon.mastery.find((perk) => perk.level > level);
+  const progress = `${formatInt(getMasteryPoints(mastery))}/${formatInt(MASTERY_LEVEL_POINTS[level + 1])} pts`;
+  return `Mastery ${level}/${MAX_MASTERY_LEVEL} | ${progress}${nextPerk ? ` | Next: ${nextPerk.title}` : ""}`;
 }
 
 function missionProgressValue(
@@ -724,9 +349,11 @@ function getDefaultMissionProgress(): DailyMissionProgress {
   };
 }
 
+// The replay library only keeps a few runs, so rows whose replay was evicted lose their replay id.
 function updateLeaderboard(
   current: LeaderboardEntry[],
   payload: Omit<LeaderboardEntry, "at">,
+  library: ReplayLibrary,
 ): LeaderboardEntry[] {
   return [
     {
@@ -736,35 +363,188 @@ function updateLeaderboard(
     ...current,
   ]
     .sort((a, b) => b.score - a.score || b.survivalSeconds - a.survivalSeconds)
-    .slice(0, 10);
+    .slice(0, 10)
+    .map((entry) => (findReplay(library, entry.replayId) ? entry : { ...entry, replayId: null }));
 }
 
-function drawArenaBackground(ctx: CanvasRenderingContext2D): void {
-  const gradient = ctx.createLinearGradient(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-  gradient.addColorStop(0, "#111d31");
-  gradient.addColorStop(1, "#07101c");
+function getCameraView(round: RoundSnapshot, blend: number): CameraView {
+  return {
+    left: lerp(round.prevCameraX, round.cameraX, blend) - CANVAS_WIDTH / 2,
+    top: lerp(round.prevCameraY, round.cameraY, blend) - CANVAS_HEIGHT / 2,
+  };
+}
+
+function worldToScreen(camera: CameraView, x: number, y: number): { x: number; y: number } {
+  return { x: x - camera.left, y: y - camera.top };
+}
+
+function screenToWorld(camera: CameraView, x: number, y: number): { x: number; y: number } {
+  return { x: x + camera.left, y: y + camera.top };
+}
+
+function toCanvasPoint(event: React.PointerEvent<HTMLCanvasElement>): { x: number; y: number } {
+  const rect = event.currentTarget.getBoundingClientRect();
+  return {
+    x: (event.clientX - rect.left) * (CANVAS_WIDTH / rect.width),
+    y: (event.clientY - rect.top) * (CANVAS_HEIGHT / rect.height),
+  };
+}
+
+// Arrow keys aim unless the first gamepad's right stick is pushed past the deadzone.
+function readAimStick(keys: KeyboardState): { x: number; y: number } {
+  const pads = typeof navigator.getGamepads === "function" ? navigator.getGamepads() : [];
+  for (const pad of pads) {
+    if (pad && pad.axes.length >= 4 && Math.hypot(pad.axes[2], pad.axes[3]) > AIM_STICK_DEADZONE) {
+      return { x: pad.axes[2], y: pad.axes[3] };
+    }
+  }
+  return { x: Number(keys.right) - Number(keys.left), y: Number(keys.down) - Number(keys.up) };
+}
+
+// The simulation steers toward a world point, so a held touch is re-projected through the camera every frame.
+function resolvePointerInput(round: RoundSnapshot, pointer: PointerState): PointerState {
+  const target = screenToWorld(getCameraView(round, 1), pointer.x, pointer.y);
+  return { active: pointer.active, x: target.x, y: target.y };
+}
+
+// Manual aim goes to the simulation as an offset from the player, so mouse aim is re-projected every frame.
+function resolveAimInput(round: RoundSnapshot, mouseAim: PointerState, aimKeys: KeyboardState): PointerState {
+  if (round.aimMode === "mouse") {
+    const target = screenToWorld(getCameraView(round, 1), mouseAim.x, mouseAim.y);
+    return { active: mouseAim.active, x: target.x - round.playerX, y: target.y - round.playerY };
+  }
+
+  if (round.aimMode === "twin_stick") {
+    const stick = readAimStick(aimKeys);
+    return { active: stick.x !== 0 || stick.y !== 0, x: stick.x, y: stick.y };
+  }
+
+  return { active: false, x: 0, y: 0 };
+}
+
+// Expects the context to be translated into world space; only the grid lines in view are stroked.
+function drawArenaBackground(ctx: CanvasRenderingContext2D, palette: ArenaPalette, camera: CameraView): void {
+  const gradient = ctx.createLinearGradient(0, 0, ARENA_WIDTH, ARENA_HEIGHT);
+  gradient.addColorStop(0, palette.backgroundFrom);
+  gradient.addColorStop(1, palette.backgroundTo);
   ctx.fillStyle = gradient;
-  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.fillRect(0, 0, ARENA_WIDTH, ARENA_HEIGHT);
 
-  ctx.strokeStyle = "rgba(255,255,255,0.05)";
+  ctx.strokeStyle = palette.grid;
   ctx.lineWidth = 1;
-  for (let x = 0; x < CANVAS_WIDTH; x += 48) {
+  const firstX = Math.max(0, Math.floor(camera.left / 48) * 48);
+  const lastX = Math.min(ARENA_WIDTH, camera.left + CANVAS_WIDTH);
+  const firstY = Math.max(0, Math.floor(camera.top / 48) * 48);
+  const lastY = Math.min(ARENA_HEIGHT, camera.top + CANVAS_HEIGHT);
+  for (let x = firstX; x < lastX; x += 48) {
     ctx.beginPath();
-    ctx.moveTo(x, 0);
-    ctx.lineTo(x, CANVAS_HEIGHT);
+    ctx.moveTo(x, firstY);
+    ctx.lineTo(x, lastY);
     ctx.stroke();
   }
 
-  for (let y = 0; y < CANVAS_HEIGHT; y += 48) {
+  for (let y = firstY; y < lastY; y += 48) {
     ctx.beginPath();
-    ctx.moveTo(0, y);
-    ctx.lineTo(CANVAS_WIDTH, y);
+    ctx.moveTo(firstX, y);
+    ctx.lineTo(lastX, y);
     ctx.stroke();
   }
 
-  ctx.strokeStyle = "rgba(255,255,255,0.08)";
+  ctx.strokeStyle = palette.border;
   ctx.lineWidth = 2;
-  ctx.strokeRect(10, 10, CANVAS_WIDTH - 20, CANVAS_HEIGHT - 20);
+  ctx.strokeRect(10, 10, ARENA_WIDTH - 20, ARENA_HEIGHT - 20);
+}
+
+function drawObstacles(ctx: CanvasRenderingContext2D, obstacles: readonly Obstacle[], palette: ArenaPalette): void {
+  ctx.save();
+  for (const obstacle of obstacles) {
+    // Low cover is drawn lighter and dashed so it reads as something shots can clear.
+    const cover = obstacle.kind === "cover";
+    ctx.fillStyle = cover ? palette.coverFill : palette.obstacleFill;
+    ctx.strokeStyle = cover ? palette.coverEdge : palette.obstacleEdge;
+    ctx.lineWidth = 2;
+    ctx.setLineDash(cover ? [5, 4] : []);
+    ctx.beginPath();
+    if (obstacle.shape === "circle") {
+      ctx.arc(obstacle.x, obstacle.y, obstacle.radius, 0, Math.PI * 2);
+    } else {
+      ctx.rect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+    }
+    ctx.fill();
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+// Drawn on the floor under obstacles and fighters. Lasers flash dashed while telegraphed and go solid once live.
+function drawArenaHazard(
+  ctx: CanvasRenderingContext2D,
+  arena: ArenaDefinition,
+  elapsed: number,
+  camera: CameraView,
+): void {
+  const { hazard, palette } = arena;
+  if (!hazard) {
+    return;
+  }
+
+  ctx.save();
+  ctx.strokeStyle = palette.hazard;
+  ctx.fillStyle = palette.hazard;
+  if (hazard.kind === "wind") {
+    const direction = getWindDirection(hazard, elapsed);
+    if (direction !== 0) {
+      ctx.lineWidth = 1.5;
+      for (let row = 0; row < 14; row += 1) {
+        const y = 24 + row * 38;
+        const x = (((elapsed * hazard.force * 3 + row * 137) % CANVAS_WIDTH) + CANVAS_WIDTH) % CANVAS_WIDTH;
+        const streakX = camera.left + (direction > 0 ? x : CANVAS_WIDTH - x);
+        ctx.beginPath();
+        ctx.moveTo(streakX, camera.top + y);
+        ctx.lineTo(streakX - direction * 46, camera.top + y);
+        ctx.stroke();
+      }
+    }
+  } else if (hazard.kind === "conveyor") {
+    for (const belt of hazard.belts) {
+      ctx.globalAlpha = 1;
+      ctx.fillRect(belt.x, belt.y, belt.width, belt.height);
+      // Chevrons scroll with the belt so its direction reads at a glance.
+      const direction = Math.sign(belt.vx) || 1;
+      const scroll = (((elapsed * belt.vx) % 32) + 32) % 32;
+      ctx.globalAlpha = 0.8;
+      ctx.lineWidth = 2;
+      for (let x = belt.x + scroll; x < belt.x + belt.width; x += 32) {
+        ctx.beginPath();
+        ctx.moveTo(x - direction * 6, belt.y + 8);
+        ctx.lineTo(x + direction * 4, belt.y + belt.height / 2);
+        ctx.lineTo(x - direction * 6, belt.y + belt.height - 8);
+        ctx.stroke();
+      }
+    }
+  } else {
+    const lane = getLaserLane(hazard, elapsed);
+    if (lane) {
+      const live = isLaserLive(hazard, elapsed);
+      ctx.lineWidth = live ? hazard.width : 2;
+      ctx.globalAlpha = live ? 0.9 : 0.35 + Math.abs(Math.sin(elapsed * 12)) * 0.45;
+      ctx.setLineDash(live ? [] : [12, 8]);
+      if (live) {
+        ctx.shadowColor = palette.hazard;
+        ctx.shadowBlur = 18;
+      }
+      ctx.beginPath();
+      if (lane.axis === "y") {
+        ctx.moveTo(0, lane.at);
+        ctx.lineTo(ARENA_WIDTH, lane.at);
+      } else {
+        ctx.moveTo(lane.at, 0);
+        ctx.lineTo(lane.at, ARENA_HEIGHT);
+      }
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
 }
 
 function drawStick(
@@ -806,7 +586,144 @@ function drawStick(
   ctx.restore();
 }
 
-function drawHud(ctx: CanvasRenderingContext2D, phase: GamePhase, round: RoundState, paused: boolean, upgrading: boolean): void {
+function drawBossBar(ctx: CanvasRenderingContext2D, boss: EnemySnapshot, top: number): void {
+  const left = 400;
+  const width = CANVAS_WIDTH - left - 24;
+  const ratio = clamp(boss.hp / boss.maxHp, 0, 1);
+
+  ctx.fillStyle = "rgba(10, 16, 28, 0.74)";
+  ctx.fillRect(left - 10, top - 8, width + 20, 44);
+  ctx.font = "700 13px 'Trebuchet MS', sans-serif";
+  ctx.fillStyle = "#ffd0dc";
+  ctx.fillText(`${BOSS_ENEMY.name} ${Math.ceil(boss.hp)}/${boss.maxHp}`, left, top + 7);
+
+  ctx.fillStyle = "rgba(255,255,255,0.15)";
+  ctx.fillRect(left, top + 14, width, 12);
+  ctx.fillStyle = `hsl(${boss.hue} 85% 58%)`;
+  ctx.fillRect(left, top + 14, width * ratio, 12);
+  ctx.strokeStyle = "rgba(255,255,255,0.3)";
+  ctx.strokeRect(left, top + 14, width, 12);
+
+  // Notches mark where the boss moves to its next attack stage.
+  ctx.fillStyle = "rgba(10, 16, 28, 0.9)";
+  for (const stage of BOSS_ENEMY.stages.slice(1)) {
+    ctx.fillRect(left + width * stage.hpRatio - 1, top + 12, 2, 16);
+  }
+}
+
+function drawBoss(ctx: CanvasRenderingContext2D, boss: EnemySnapshot, x: number, y: number, elapsed: number): void {
+  const color = `hsl(${boss.hue} 85% 62%)`;
+  const windupLeft = Math.max(0, boss.phaseEndsAt - elapsed);
+  const pulse = 0.45 + Math.abs(Math.sin(elapsed * 14)) * 0.4;
+
+  ctx.save();
+  if (boss.phase === "charge_windup") {
+    const length = BOSS_ENEMY.charge.speed * BOSS_ENEMY.charge.durationSeconds;
+    ctx.strokeStyle = `rgba(255, 96, 120, ${pulse.toFixed(3)})`;
+    ctx.lineWidth = boss.radius * 1.2;
+    ctx.lineCap = "round";
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + boss.aimX * length, y + boss.aimY * length);
+    ctx.stroke();
+  } else if (boss.phase === "slam_windup") {
+    const progress = clamp(1 - windupLeft / BOSS_ENEMY.slam.windupSeconds, 0, 1);
+    ctx.fillStyle = `rgba(255, 96, 120, ${(0.12 + progress * 0.2).toFixed(3)})`;
+    ctx.beginPath();
+    ctx.arc(x, y, BOSS_ENEMY.slam.radius * progress, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = `rgba(255, 96, 120, ${pulse.toFixed(3)})`;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(x, y, BOSS_ENEMY.slam.radius, 0, Math.PI * 2);
+    ctx.stroke();
+  } else if (boss.phase === "summon_windup") {
+    ctx.strokeStyle = `rgba(195, 156, 255, ${pulse.toFixed(3)})`;
+    ctx.lineWidth = 3;
+    ctx.setLineDash([6, 8]);
+    ctx.beginPath();
+    ctx.arc(x, y, BOSS_ENEMY.summon.radius, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+
+  drawStick(ctx, x, y, boss.radius, color, boss.aimX || 1);
+  ctx.save();
+  ctx.fillStyle = "#ffd27a";
+  const crownY = y - boss.radius * 2.05;
+  ctx.beginPath();
+  ctx.moveTo(x - boss.radius * 0.5, crownY);
+  ctx.lineTo(x - boss.radius * 0.3, crownY - boss.radius * 0.35);
+  ctx.lineTo(x, crownY - boss.radius * 0.12);
+  ctx.lineTo(x + boss.radius * 0.3, crownY - boss.radius * 0.35);
+  ctx.lineTo(x + boss.radius * 0.5, crownY);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
+
+function describeWave(round: RoundSnapshot): string {
+  const wave = WAVE_SCRIPT[round.waveIndex];
+  if (!wave) {
+    return "Endless surge";
+  }
+  if (round.elapsed < wave.startSeconds) {
+    return `Breather ${Math.ceil(wave.startSeconds - round.elapsed)}s`;
+  }
+  return `Wave ${round.waveIndex + 1}/${WAVE_SCRIPT.length}: ${wave.name}`;
+}
+
+// Type-specific overlays drawn on top of the stick figure. Timed abilities glow for a moment before they fire.
+function drawEnemyTraits(ctx: CanvasRenderingContext2D, enemy: EnemySnapshot, x: number, y: number, elapsed: number): void {
+  const abilityIn = enemy.abilityReadyAt - elapsed;
+  const telegraph = enemy.abilityReadyAt > 0 && abilityIn < 0.45 ? 0.9 - Math.max(0, abilityIn) * 1.6 : 0;
+  const headY = y - enemy.radius * 1.45;
+
+  ctx.save();
+  if (enemy.type === "spitter" && telegraph > 0) {
+    ctx.fillStyle = `rgba(184, 255, 106, ${telegraph.toFixed(3)})`;
+    ctx.beginPath();
+    ctx.arc(x, headY, enemy.radius * 0.42, 0, Math.PI * 2);
+    ctx.fill();
+  } else if (enemy.type === "splitter") {
+    ctx.fillStyle = `hsl(${enemy.hue} 90% 63%)`;
+    for (let i = 0; i < 3; i += 1) {
+      const angle = (Math.PI * 2 * i) / 3 + elapsed * 2;
+      ctx.beginPath();
+      ctx.arc(x + Math.cos(angle) * enemy.radius * 0.45, y + Math.sin(angle) * enemy.radius * 0.45, 2.2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  } else if (enemy.type === "shielded") {
+    const facing = Math.atan2(enemy.aimY, enemy.aimX);
+    const halfArc = ((getEnemyDefinition("shielded").frontShield?.arcDegrees ?? 120) / 2) * (Math.PI / 180);
+    ctx.strokeStyle = "rgba(160, 205, 255, 0.9)";
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(x, y, enemy.radius * 1.3, facing - halfArc, facing + halfArc);
+    ctx.stroke();
+  } else if (enemy.type === "summoner") {
+    ctx.strokeStyle = `rgba(226, 140, 255, ${(0.35 + telegraph * 0.6).toFixed(3)})`;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 5]);
+    ctx.beginPath();
+    ctx.arc(x, headY, enemy.radius * (0.8 + telegraph * 0.6), 0, Math.PI * 2);
+    ctx.stroke();
+  } else if (enemy.type === "healer") {
+    ctx.fillStyle = "#7dffa8";
+    ctx.fillRect(x - 1.5, headY - enemy.radius - 6, 3, 9);
+    ctx.fillRect(x - 4.5, headY - enemy.radius - 3, 9, 3);
+    if (telegraph > 0) {
+      ctx.strokeStyle = `rgba(125, 255, 168, ${(telegraph * 0.5).toFixed(3)})`;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(x, y, enemy.radius * 2 + telegraph * 30, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
+}
+
+function drawHud(ctx: CanvasRenderingContext2D, phase: GamePhase, round: RoundSnapshot, paused: boolean, upgrading: boolean): void {
   ctx.fillStyle = "rgba(10, 16, 28, 0.74)";
   ctx.fillRect(20, 18, 360, 144);
 
@@ -814,10 +731,23 @@ function drawHud(ctx: CanvasRenderingContext2D, phase: GamePhase, round: RoundSt
   ctx.fillStyle = "#f5f8ff";
   ctx.fillText(`Score: ${Math.floor(round.score)}`, 32, 42);
 
+  ctx.save();
+  ctx.font = "600 12px 'Trebuchet MS', sans-serif";
+  ctx.fillStyle = "#ffd8a4";
+  ctx.textAlign = "right";
+  ctx.fillText(describeWave(round), 368, 42);
+  ctx.restore();
+
   ctx.font = "500 12px 'Trebuchet MS', sans-serif";
   ctx.fillStyle = "#9fc2ff";
-  ctx.fillText(`${getHero(round.heroId).name} | ${getWeapon(round.weaponId).name}`, 32, 62);
-  ctx.fillText(`Time ${formatSeconds(round.elapsed)} | Kills ${round.kills} | Combo x${round.combo}`, 32, 80);
+  const mode = getGameMode(round.modeId);
+  const weapons = formatWeaponLoadout(round.weaponId, round.secondaryWeaponId);
+  ctx.fillText(`${getHero(round.heroId).name} | ${weapons} | ${mode.name}`, 32, 62);
+  const timeText =
+    mode.timeLimitSeconds !== null
+      ? `Left ${formatSeconds(Math.max(0, mode.timeLimitSeconds - round.elapsed))}`
+      : `Time ${formatSeconds(round.elapsed)}`;
+  ctx.fillText(`${timeText} | Kills ${round.kills} | Combo x${round.combo}`, 32, 80);
 
   const progress = round.xpToNext > 0 ? clamp(round.xp / round.xpToNext, 0, 1) : 0;
   ctx.fillStyle = "rgba(255,255,255,0.15)";
@@ -853,7 +783,21 @@ function drawHud(ctx: CanvasRenderingContext2D, phase: GamePhase, round: RoundSt
     );
   }
 
-  if (phase !== "playing") {
+  const boss = round.enemies.find((enemy) => enemy.type === "boss" && enemy.hp > 0);
+  if (boss) {
+    drawBossBar(ctx, boss, phase === "replay" ? 104 : 26);
+  }
+
+  if (phase === "replay") {
+    ctx.fillStyle = "rgba(10, 16, 28, 0.68)";
+    ctx.fillRect(CANVAS_WIDTH - 322, 20, 298, 64);
+    ctx.fillStyle = "#f2f5ff";
+    ctx.font = "700 17px 'Trebuchet MS', sans-serif";
+    ctx.fillText("Replay", CANVAS_WIDTH - 302, 46);
+    ctx.fillStyle = "#8db2ff";
+    ctx.font = "500 12px 'Trebuchet MS', sans-serif";
+    ctx.fillText("Recorded run. Space to pause, Esc to exit.", CANVAS_WIDTH - 302, 67);
+  } else if (phase !== "playing") {
     ctx.fillStyle = "rgba(10, 16, 28, 0.68)";
     ctx.fillRect(CANVAS_WIDTH - 322, 20, 298, 84);
     ctx.fillStyle = "#f2f5ff";
@@ -874,153 +818,147 @@ function drawHud(ctx: CanvasRenderingContext2D, phase: GamePhase, round: RoundSt
   }
 }
 
-function findNearestEnemy(round: RoundState): Enemy | null {
-  let nearest: Enemy | null = null;
-  let bestDistance = Number.POSITIVE_INFINITY;
+function drawDebugHud(ctx: CanvasRenderingContext2D, stats: EntityPoolStats, round: RoundSnapshot): void {
+  const rows: [string, EntityPoolStats[keyof EntityPoolStats]][] = [
+    ["Enemies", stats.enemies],
+    ["Shots", stats.projectiles],
+    ["Hostile", stats.hostileProjectiles],
+    ["Orbs", stats.orbs],
+    ["Pickups", stats.pickups],
+  ];
 
-  for (const enemy of round.enemies) {
-    const distance = Math.hypot(enemy.x - round.playerX, enemy.y - round.playerY);
-    if (distance < bestDistance) {
-      bestDistance = distance;
-      nearest = enemy;
-    }
-  }
+  const { difficulty } = round;
 
-  return nearest;
-}
-
-function spawnVolley(round: RoundState): void {
-  const target = findNearestEnemy(round);
-  if (!target) {
-    return;
-  }
-
-  const weapon = getWeapon(round.weaponId);
-  const direction = normalize(target.x - round.playerX, target.y - round.playerY);
-  let shotCount = Math.max(1, round.build.multiShot);
-  let spreadStep = 0.14;
-  let speedScale = 1;
-  let ttl = PROJECTILE_TTL;
-  let damageScale = 1;
-  let radius = 3.2;
-  let pierce = 0;
-
-  if (weapon.id === "scatter") {
-    shotCount = Math.max(3, round.build.multiShot + 2);
-    spreadStep = 0.23;
-    speedScale = 0.94;
-    ttl = PROJECTILE_TTL * 0.88;
-    damageScale = 0.72;
-    radius = 3;
-  } else if (weapon.id === "lance") {
-    shotCount = 1;
-    spreadStep = 0;
-    speedScale = 0.86;
-    ttl = PROJECTILE_TTL * 1.45;
-    damageScale = 1.95;
-    radius = 4.5;
-    pierce = 2;
-  }
-
-  for (let i = 0; i < shotCount; i += 1) {
-    const offset = shotCount === 1 ? 0 : (i - (shotCount - 1) / 2) * spreadStep;
-    const rotated = rotate(direction.x, direction.y, offset);
-
-    round.projectiles.push({
-      id: nextId(),
-      x: round.playerX,
-      y: round.playerY,
-      vx: rotated.x * PROJECTILE_SPEED * speedScale,
-      vy: rotated.y * PROJECTILE_SPEED * speedScale,
-      ttl,
-      damage: Math.max(1, Math.round(round.build.shotDamage * damageScale)),
-      radius,
-      pierce,
-    });
-  }
-
-  if (round.projectiles.length > 180) {
-    round.projectiles.splice(0, round.projectiles.length - 180);
-  }
-}
+  ctx.fillStyle = "rgba(10, 16, 28, 0.68)";
+  ctx.fillRect(20, CANVAS_HEIGHT - 137, 236, 117);
+  ctx.font = "500 11px 'Trebuchet MS', sans-serif";
+  ctx.fillStyle = "#9fc2ff";
+  rows.forEach(([label, row], index) => {
+    ctx.fillText(
+      `${label} live ${row.live} | pooled ${row.pooled} | alloc ${row.allocated}`,
+      30,
+      CANVAS_HEIGHT - 89 + index * 15,
+    );
+  });
 
-function onEnemyDefeated(round: RoundState, enemy: Enemy): void {
-  const comboActive = round.elapsed <= round.comboExpireAt;
-  round.combo = comboActive ? Math.min(9, round.combo + 1) : 1;
-  round.bestCombo = Math.max(round.bestCombo, round.combo);
-  round.comboExpireAt = round.elapsed + COMBO_WINDOW_SECONDS;
-
-  round.kills += 1;
-  const baseScore = enemy.elite ? 86 : enemy.type === "brute" ? 40 : enemy.type === "zigzag" ? 27 : 19;
-  const gainedScore = Math.floor(baseScore * (1 + (round.combo - 1) * 0.16));
-  round.score += gainedScore;
-  round.powerCharge = Math.min(
-    100,
-    round.powerCharge + (enemy.elite ? 28 : enemy.type === "brute" ? 18 : enemy.type === "zigzag" ? 12 : 8),
+  ctx.fillStyle = "#ffd8a4";
+  ctx.fillText(
+    `Intensity ${difficulty.intensity.toFixed(2)} | hits/min ${difficulty.shieldLossesPerMinute.toFixed(1)}`,
+    30,
+    CANVAS_HEIGHT - 119,
   );
+  ctx.fillText(
+    `Kill ${difficulty.killRate.toFixed(2)}/s | spawn ${difficulty.spawnRate.toFixed(2)}/s | dist ${Math.round(difficulty.averageEnemyDistance)}`,
+    30,
+    CANVAS_HEIGHT - 104,
+  );
+}
 
-  const orbXp = enemy.elite
-    ? Math.floor(randomInRange(32, 46))
-    : enemy.type === "brute"
-      ? Math.floor(randomInRange(18, 28))
-      : enemy.type === "zigzag"
-        ? Math.floor(randomInRange(12, 18))
-        : Math.floor(randomInRange(8, 14));
-  round.orbs.push({
-    id: nextId(),
-    x: enemy.x,
-    y: enemy.y,
-    radius: enemy.elite ? 8.5 : enemy.type === "brute" ? 7 : 6,
-    xp: orbXp,
-    score: enemy.elite ? 22 : enemy.type === "brute" ? 14 : 8,
-    ttl: 14,
-  });
-
-  if (round.contractTarget > 0) {
-    round.contractProgress += 1;
-  }
+// `color` is the weapon's mastery tint, or null for the default look.
+function drawProjectile(
+  ctx: CanvasRenderingContext2D,
+  projectile: ProjectileSnapshot,
+  blend: number,
+  color: string | null,
+): void {
+  const x = lerp(projectile.prevX, projectile.x, blend);
+  const y = lerp(projectile.prevY, projectile.y, blend);
 
-  const dropRoll = Math.random();
-  if (enemy.elite || dropRoll < 0.08) {
-    const kind: PickupKind = dropRoll < 0.028 ? "shield" : dropRoll < 0.056 ? "frenzy" : "stasis";
-    round.pickups.push({
-      id: nextId(),
-      x: enemy.x,
-      y: enemy.y,
-      radius: 9,
-      ttl: 15,
-      kind,
-    });
+  ctx.save();
+  switch (projectile.behavior) {
+    case "boomerang":
+      ctx.translate(x, y);
+      ctx.rotate(projectile.age * 14);
+      ctx.strokeStyle = color ?? "#ffd27a";
+      ctx.lineWidth = 3;
+      ctx.lineCap = "round";
+      ctx.beginPath();
+      ctx.arc(0, 0, projectile.radius, 0, Math.PI * 1.3);
+      ctx.stroke();
+      break;
+    case "orbit_blades":
+      ctx.translate(x, y);
+      ctx.rotate(projectile.age * 18);
+      ctx.fillStyle = color ?? "#d8e6ff";
+      ctx.beginPath();
+      for (let point = 0; point < 8; point += 1) {
+        const reach = point % 2 === 0 ? projectile.radius : projectile.radius * 0.45;
+        const angle = (Math.PI * point) / 4;
+        ctx.lineTo(Math.cos(angle) * reach, Math.sin(angle) * reach);
+      }
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case "chain_lightning":
+      ctx.strokeStyle = color ?? "#9fd8ff";
+      ctx.lineWidth = 2;
+      ctx.shadowColor = "#5ab8ff";
+      ctx.shadowBlur = 8;
+      ctx.beginPath();
+      ctx.moveTo(projectile.originX, projectile.originY);
+      ctx.lineTo(x, y);
+      ctx.stroke();
+      break;
+    case "flame_cone":
+      ctx.globalAlpha = clamp(1 - projectile.age * 3, 0.15, 0.85);
+      ctx.fillStyle = projectile.age < 0.12 ? "#ffcf5a" : color ?? "#ff6a3a";
+      ctx.beginPath();
+      ctx.arc(x, y, projectile.radius, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    default:
+      ctx.fillStyle = color ?? "#ffd27a";
+      ctx.beginPath();
+      ctx.arc(x, y, projectile.radius, 0, Math.PI * 2);
+      ctx.fill();
   }
+  ctx.restore();
 }
 
-function drawProjectile(ctx: CanvasRenderingContext2D, projectile: Projectile): void {
+function drawHostileProjectile(ctx: CanvasRenderingContext2D, projectile: HostileProjectileSnapshot, blend: number): void {
+  const x = lerp(projectile.prevX, projectile.x, blend);
+  const y = lerp(projectile.prevY, projectile.y, blend);
+
   ctx.save();
-  ctx.fillStyle = "#ffd27a";
+  ctx.fillStyle = "rgba(164, 255, 92, 0.25)";
+  ctx.beginPath();
+  ctx.arc(x, y, projectile.radius + 4, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = "#b8ff6a";
   ctx.beginPath();
-  ctx.arc(projectile.x, projectile.y, projectile.radius, 0, Math.PI * 2);
+  ctx.arc(x, y, projectile.radius, 0, Math.PI * 2);
   ctx.fill();
   ctx.restore();
 }
 
-function drawOrb(ctx: CanvasRenderingContext2D, orb: Orb): void {
+function drawOrb(ctx: CanvasRenderingContext2D, orb: OrbSnapshot, blend: number): void {
+  const x = lerp(orb.prevX, orb.x, blend);
+  const y = lerp(orb.prevY, orb.y, blend);
+
   ctx.save();
   ctx.fillStyle = "#74f5ff";
   ctx.beginPath();
-  ctx.arc(orb.x, orb.y, orb.radius, 0, Math.PI * 2);
+  ctx.arc(x, y, orb.radius, 0, Math.PI * 2);
   ctx.fill();
 
   ctx.strokeStyle = "rgba(116,245,255,0.35)";
   ctx.lineWidth = 1;
   ctx.beginPath();
-  ctx.arc(orb.x, orb.y, orb.radius + 2.5, 0, Math.PI * 2);
+  ctx.arc(x, y, orb.radius + 2.5, 0, Math.PI * 2);
   ctx.stroke();
   ctx.restore();
 }
 
-function drawPickup(ctx: CanvasRenderingContext2D, pickup: Pickup): void {
-  const color = pickup.kind === "shield" ? "#4bd9a8" : pickup.kind === "frenzy" ? "#ffb347" : "#86d9ff";
-  const label = pickup.kind === "shield" ? "S" : pickup.kind === "frenzy" ? "F" : "T";
+function drawPickup(ctx: CanvasRenderingContext2D, pickup: PickupSnapshot): void {
+  const color =
+    pickup.kind === "cache"
+      ? "#ffd27a"
+      : pickup.kind === "shield"
+        ? "#4bd9a8"
+        : pickup.kind === "frenzy"
+          ? "#ffb347"
+          : "#86d9ff";
+  const label = pickup.kind === "cache" ? "$" : pickup.kind === "shield" ? "S" : pickup.kind === "frenzy" ? "F" : "T";
 
   ctx.save();
   ctx.fillStyle = color;
@@ -1036,7 +974,8 @@ function drawPickup(ctx: CanvasRenderingContext2D, pickup: Pickup): void {
   ctx.restore();
 }
 
-function drawOffscreenIndicators(ctx: CanvasRenderingContext2D, round: RoundState): void {
+// Screen-space arrows on the view edge pointing at enemies the camera cannot see.
+function drawOffscreenIndicators(ctx: CanvasRenderingContext2D, round: RoundSnapshot, camera: CameraView): void {
   const centerX = CANVAS_WIDTH / 2;
   const centerY = CANVAS_HEIGHT / 2;
   const margin = 26;
@@ -1044,18 +983,24 @@ function drawOffscreenIndicators(ctx: CanvasRenderingContext2D, round: RoundStat
   const maxY = CANVAS_HEIGHT - margin;
 
   for (const enemy of round.enemies) {
-    if (enemy.x >= 0 && enemy.x <= CANVAS_WIDTH && enemy.y >= 0 && enemy.y <= CANVAS_HEIGHT) {
+    const screen = worldToScreen(camera, enemy.x, enemy.y);
+    if (screen.x >= 0 && screen.x <= CANVAS_WIDTH && screen.y >= 0 && screen.y <= CANVAS_HEIGHT) {
       continue;
     }
 
-    const angle = Math.atan2(enemy.y - centerY, enemy.x - centerX);
+    const angle = Math.atan2(screen.y - centerY, screen.x - centerX);
     const edgeX = clamp(centerX + Math.cos(angle) * (centerX - margin), margin, maxX);
     const edgeY = clamp(centerY + Math.sin(angle) * (centerY - margin), margin, maxY);
 
     ctx.save();
     ctx.translate(edgeX, edgeY);
     ctx.rotate(angle + Math.PI / 2);
-    ctx.fillStyle = enemy.elite ? "rgba(195,156,255,0.9)" : "rgba(255,120,120,0.72)";
+    ctx.fillStyle =
+      enemy.type === "boss"
+        ? "rgba(255,96,120,0.95)"
+        : enemy.elite
+          ? "rgba(195,156,255,0.9)"
+          : "rgba(255,120,120,0.72)";
     ctx.beginPath();
     ctx.moveTo(0, -8);
     ctx.lineTo(7, 6);
@@ -1076,17 +1021,36 @@ export default function StickPartyGame() {
     left: false,
     right: false,
   });
+  // Screen-space touch or drag point for steering.
   const pointerRef = useRef<PointerState>({
     active: false,
     x: CANVAS_WIDTH / 2,
     y: CANVAS_HEIGHT / 2,
   });
+  // Screen-space cursor for mouse aim, and the arrow keys while twin-stick aiming.
+  const mouseAimRef = useRef<PointerState>({ active: false, x: 0, y: 0 });
+  const aimKeysRef = useRef<KeyboardState>({
+    up: false,
+    down: false,
+    left: false,
+    right: false,
+  });
   const damageFlashRef = useRef(0);
   const shakeRef = useRef(0);
   const phaseRef = useRef<GamePhase>("home");
-  const roundRef = useRef<RoundState>(resetRound("viper", "pulse", DEFAULT_META_UPGRADES));
+  const roundRef = useRef<RoundSnapshot>(createRoundSnapshot(resetRound("viper", "pulse", DEFAULT_META_UPGRADES)));
   const profileRef = useRef<PlayerProfile | null>(null);
   const upgradeOpenRef = useRef(false);
+  const pendingActionsRef = useRef<RoundAction[]>([]);
+  const simulationHostRef = useRef<SimulationHost | null>(null);
+  const simulationBlendRef = useRef(1);
+  const poolStatsRef = useRef<EntityPoolStats | null>(null);
+  const roundUpdateHandlerRef = useRef<(update: SimulationUpdate) => void>(() => undefined);
+  const replayLibraryRef = useRef<ReplayLibrary>(createEmptyReplayLibrary());
+  const playbackRef = useRef<ReplayPlayback | null>(null);
+  const replayPausedRef = useRef(false);
+  const replaySpeedRef = useRef(1);
+  const replayReturnPhaseRef = useRef<GamePhase>("home");
 
   const adIntervalRef = useRef<number | null>(null);
   const adStartTimeoutRef = useRef<number | null>(null);
@@ -1098,15 +1062,27 @@ export default function StickPartyGame() {
   const [rewardStatus, setRewardStatus] = useState<RewardedStatus>(EMPTY_REWARDED_STATUS);
   const [isPaused, setIsPaused] = useState(false);
   const [isUpgradeOpen, setIsUpgradeOpen] = useState(false);
-  const [upgradeChoices, setUpgradeChoices] = useState<UpgradeDefinition[]>([]);
+  const [upgradeChoices, setUpgradeChoices] = useState<UpgradeOffer[]>([]);
+  const [isBanishArmed, setIsBanishArmed] = useState(false);
   const [liveStats, setLiveStats] = useState<LiveStats>(LIVE_STATS_DEFAULT);
   const [selectedHero, setSelectedHero] = useState<HeroId>("viper");
   const [selectedWeapon, setSelectedWeapon] = useState<WeaponId>("pulse");
+  const [selectedSecondaryWeapon, setSelectedSecondaryWeapon] = useState<WeaponId | null>(null);
+  // Which loadout slot a click in the weapon picker fills.
+  const [weaponSlot, setWeaponSlot] = useState<WeaponSlot>("primary");
+  const [selectedMode, setSelectedMode] = useState<GameModeId>("endless");
+  const [selectedArena, setSelectedArena] = useState<ArenaId>("yard");
+  const [aimMode, setAimMode] = useState<AimMode>("auto");
   const [adState, setAdState] = useState<"idle" | "loading" | "showing">("idle");
   const [adCountdown, setAdCountdown] = useState(AD_DURATION_SECONDS);
   const [nicknameDraft, setNicknameDraft] = useState("");
   const [isNativeFullscreen, setIsNativeFullscreen] = useState(false);
   const [isFallbackFullscreen, setIsFallbackFullscreen] = useState(false);
+  const [replayLibrary, setReplayLibrary] = useState<ReplayLibrary>(createEmptyReplayLibrary);
+  const [activeReplay, setActiveReplay] = useState<RunReplay | null>(null);
+  const [replayTick, setReplayTick] = useState(0);
+  const [isReplayPaused, setIsReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
 
   const rewardOdds = useMemo(() => rewardedTierOdds(), []);
   const isFullscreen = isNativeFullscreen || isFallbackFullscreen;
@@ -1178,35 +1154,84 @@ export default function StickPartyGame() {
     upgradeOpenRef.current = false;
     setIsUpgradeOpen(false);
     setUpgradeChoices([]);
+    setIsBanishArmed(false);
   }, []);
 
-  const openUpgradeSelection = useCallback(() => {
-    const choices = pickUpgradeChoices();
+  // Also used when a reroll or banish swaps the offers while the picker is open.
+  const showUpgradeChoices = useCallback((choices: UpgradeId[]) => {
     upgradeOpenRef.current = true;
-    setUpgradeChoices(choices);
+    setUpgradeChoices(
+      choices.map((upgradeId) => ({
+        upgrade: getUpgrade(upgradeId),
+        level: getUpgradeLevel(roundRef.current, upgradeId),
+      })),
+    );
     setIsUpgradeOpen(true);
-    setStatusText("Level up. Choose one upgrade.");
+    setIsBanishArmed(false);
+    setLiveStats(toLiveStats(roundRef.current));
   }, []);
 
+  const openUpgradeSelection = useCallback(
+    (choices: UpgradeId[]) => {
+      showUpgradeChoices(choices);
+      setStatusText("Level up. Choose one upgrade.");
+    },
+    [showUpgradeChoices],
+  );
+
   const handleRoundEnd = useCallback(
-    (finalState: RoundState) => {
+    (finalState: RoundSnapshot, replay: RunReplay | null, cleared: boolean) => {
       const score = Math.floor(finalState.score);
       const survivalSeconds = Math.floor(finalState.elapsed);
-      const rewards = calculateMatchReward(score);
+      const mode = getGameMode(finalState.modeId);
+      const arena = getArena(finalState.arenaId);
+      const rewards = calculateMatchReward(score, mode.rewardMultiplier);
       const heroName = getHero(finalState.heroId).name;
       const weaponName = getWeapon(finalState.weaponId).name;
+      const loadoutName = formatWeaponLoadout(finalState.weaponId, finalState.secondaryWeaponId);
+
+      if (replay) {
+        replayLibraryRef.current = saveReplayLibrary(storeReplay(replayLibraryRef.current, replay));
+        setReplayLibrary(replayLibraryRef.current);
+      }
 
       let summary: RoundSummary | null = null;
       let missionReadyCount = 0;
+      let milestoneArenas: ArenaDefinition[] = [];
+      let masteryLevelUp: number | null = null;
       writeProfile((current) => {
         const normalized = refreshDailyCounters(current);
         const nextBest = Math.max(normalized.bestScore, score);
+        const nextArenaBest = Math.max(normalized.arenaBestScores[arena.id], score);
+        // Milestones check the overall best, so a strong run in any arena opens the next one.
+        milestoneArenas = ARENAS.filter(
+          (candidate) => !normalized.unlockedArenas.includes(candidate.id) && nextBest >= candidate.unlockBestScore,
+        );
         const nextMissionProgress: DailyMissionProgress = {
           kills: normalized.dailyMissionProgress.kills + finalState.kills,
           survivalSeconds: normalized.dailyMissionProgress.survivalSeconds + survivalSeconds,
           matches: normalized.dailyMissionProgress.matches + 1,
         };
 
+        const weapon = getWeapon(finalState.weaponId);
+        const mastery = normalized.weaponMastery[weapon.id];
+        const nextMastery = {
+          kills: mastery.kills + finalState.kills - finalState.secondaryKills,
+          playSeconds: mastery.playSeconds + survivalSeconds,
+        };
+        const previousMasteryLevel = getMasteryLevel(mastery);
+        const nextMasteryLevel = getMasteryLevel(nextMastery);
+        masteryLevelUp = nextMasteryLevel > previousMasteryLevel ? nextMasteryLevel : null;
+        const secondaryId = finalState.secondaryWeaponId;
+        const secondaryMastery = secondaryId
+          ? {
+              [secondaryId]: {
+                kills: normalized.weaponMastery[secondaryId].kills + finalState.secondaryKills,
+                playSeconds: normalized.weaponMastery[secondaryId].playSeconds + survivalSeconds,
+              },
+            }
+          : {};
+
         missionReadyCount = DAILY_MISSIONS.filter(
           (mission) =>
             !normalized.dailyMissionClaimed.includes(mission.id) &&
@@ -1219,45 +1244,97 @@ export default function StickPartyGame() {
           totalMatches: normalized.totalMatches + 1,
           totalPlaySeconds: normalized.totalPlaySeconds + survivalSeconds,
           bestScore: nextBest,
+          arenaBestScores: { ...normalized.arenaBestScores, [arena.id]: nextArenaBest },
+          unlockedArenas: [...normalized.unlockedArenas, ...milestoneArenas.map((candidate) => candidate.id)],
+          weaponMastery: {
+            ...normalized.weaponMastery,
+            [weapon.id]: nextMastery,
+            ...secondaryMastery,
+          },
           credits: normalized.credits + rewards.credits,
           crystals: normalized.crystals + rewards.crystals,
           dailyMissionProgress: nextMissionProgress,
-          leaderboard: updateLeaderboard(normalized.leaderboard, {
-            score,
-            survivalSeconds,
-            kills: finalState.kills,
-            hero: heroName,
-            weapon: finalState.weaponId,
-          }),
+          leaderboard: updateLeaderboard(
+            normalized.leaderboard,
+            {
+              score,
+              survivalSeconds,
+              kills: finalState.kills,
+              hero: heroName,
+              weapon: finalState.weaponId,
+              secondaryWeapon: finalState.secondaryWeaponId,
+              mode: finalState.modeId,
+              replayId: replay?.id ?? null,
+            },
+            replayLibraryRef.current,
+          ),
         };
 
         updated = recordEvent(updated, "match_end", {
           score,
           survival_seconds: survivalSeconds,
           hero: heroName,
-          weapon: weaponName,
+          weapon: loadoutName,
+          mode: mode.id,
+          arena: arena.id,
+          cleared,
+          bosses_defeated: finalState.bossesDefeated,
+          intensity: Number(finalState.difficulty.intensity.toFixed(2)),
+          shields_lost: finalState.shieldsLost,
           enemies_spawned: finalState.spawnedEnemies,
+          seed: finalState.rng.seed,
           kills: finalState.kills,
           level: finalState.level,
           reward_credits: rewards.credits,
           reward_crystals: rewards.crystals,
         });
 
+        for (const unlocked of milestoneArenas) {
+          updated = recordEvent(updated, "arena_unlocked", {
+            arena: unlocked.name,
+            source: "milestone",
+            best_score: nextBest,
+          });
+        }
+
+        if (masteryLevelUp !== null) {
+          updated = recordEvent(updated, "weapon_mastery_up", {
+            weapon: weaponName,
+            level: masteryLevelUp,
+          });
+        }
+
         updated = recordEvent(updated, "rewarded_ad_offer_shown", {
           score,
           claims_left: rewardedStatus(updated).claimsLeftToday,
         });
 
         summary = {
+          modeId: mode.id,
+          arenaId: arena.id,
+          cleared,
           score,
           survivalSeconds,
           spawnedEnemies: finalState.spawnedEnemies,
           kills: finalState.kills,
           level: finalState.level,
           bestCombo: finalState.bestCombo,
+          bossesDefeated: finalState.bossesDefeated,
           rewardCredits: rewards.credits,
           rewardCrystals: rewards.crystals,
           isBestScore: score >= nextBest,
+          isArenaBest: score > 0 && score >= nextArenaBest,
+          unlockedArenas: milestoneArenas.map((candidate) => candidate.id),
+          masteryLevelUp,
+          masteryPerks: weapon.mastery
+            .filter((perk) => perk.level > previousMasteryLevel && perk.level <= nextMasteryLevel)
+            .map((perk) => perk.title),
+          build: finalState.upgrades.map((upgradeId) => ({
+            upgrade: getUpgrade(upgradeId),
+            level: getUpgradeLevel(finalState, upgradeId),
+          })),
+          seed: finalState.rng.seed,
+          replayId: replay?.id ?? null,
         };
 
         return updated;
@@ -1269,7 +1346,12 @@ export default function StickPartyGame() {
 
       closeUpgradeSelection();
       setIsPaused(false);
-      if (missionReadyCount > 0) {
+      if (milestoneArenas.length > 0) {
+        const names = milestoneArenas.map((unlocked) => unlocked.name).join(", ");
+        setStatusText(`Match rewards applied. New arena unlocked: ${names}.`);
+      } else if (masteryLevelUp !== null) {
+        setStatusText(`Match rewards applied. ${weaponName} reached mastery ${masteryLevelUp}.`);
+      } else if (missionReadyCount > 0) {
         setStatusText(
           `Match rewards applied. ${missionReadyCount} daily mission reward(s) ready to claim.`,
         );
@@ -1283,23 +1365,77 @@ export default function StickPartyGame() {
     [closeUpgradeSelection, recordEvent, writeProfile],
   );
 
+  const handleRoundEvents = useCallback(
+    (events: RoundEvent[], replay: RunReplay | null) => {
+      for (const event of events) {
+        if (event.type === "status") {
+          setStatusText(event.message);
+        } else if (event.type === "shield_lost") {
+          damageFlashRef.current = Math.min(1, damageFlashRef.current + 0.65);
+          shakeRef.current = Math.min(14, shakeRef.current + 8.5);
+          setStatusText(`Hit taken. Shield left: ${event.shield}/${event.maxShield}.`);
+        } else if (event.type === "level_up") {
+          openUpgradeSelection(event.choices);
+        } else if (event.type === "upgrade_choices") {
+          showUpgradeChoices(event.choices);
+        } else {
+          const round = roundRef.current;
+          const cleared = event.type === "victory";
+          if (!cleared) {
+            damageFlashRef.current = 1;
+            shakeRef.current = Math.min(20, shakeRef.current + 14);
+          }
+          handleRoundEnd(round, replay, cleared);
+          const meta = profileRef.current?.metaUpgrades ?? DEFAULT_META_UPGRADES;
+          roundRef.current = createRoundSnapshot(
+            resetRound(
+              round.heroId,
+              round.weaponId,
+              meta,
+              undefined,
+              round.modeId,
+              round.arenaId,
+              round.aimMode,
+              round.masteryLevel,
+              round.secondaryWeaponId,
+              round.secondaryMasteryLevel,
+            ),
+          );
+        }
+      }
+    },
+    [handleRoundEnd, openUpgradeSelection, showUpgradeChoices],
+  );
+
   const startMatch = useCallback(() => {
     const hero = getHero(selectedHero);
+    const mode = getGameMode(selectedMode);
     const started = writeProfile((current) => {
       const normalized = refreshDailyCounters(current);
       const preferredWeapon = normalized.unlockedWeapons.includes(selectedWeapon)
         ? selectedWeapon
         : normalized.selectedWeapon;
       const safeWeapon = normalized.unlockedWeapons.includes(preferredWeapon) ? preferredWeapon : "pulse";
-
-      const withSelectedWeapon: PlayerProfile = {
+      const safeSecondary =
+        selectedSecondaryWeapon &&
+        selectedSecondaryWeapon !== safeWeapon &&
+        normalized.unlockedWeapons.includes(selectedSecondaryWeapon)
+          ? selectedSecondaryWeapon
+          : null;
+      const safeArena = normalized.unlockedArenas.includes(selectedArena) ? selectedArena : "yard";
+
+      const withSelectedLoadout: PlayerProfile = {
         ...normalized,
         selectedWeapon: safeWeapon,
+        selectedSecondaryWeapon: safeSecondary,
+        selectedArena: safeArena,
       };
-      return recordEvent(withSelectedWeapon, "match_start", {
+      return recordEvent(withSelectedLoadout, "match_start", {
         source: "menu",
         hero: hero.name,
-        weapon: getWeapon(safeWeapon).name,
+        weapon: formatWeaponLoadout(safeWeapon, safeSecondary),
+        mode: mode.id,
+        arena: safeArena,
       });
     });
     if (!started) {
@@ -1309,19 +1445,67 @@ export default function StickPartyGame() {
     const safeWeapon = started.unlockedWeapons.includes(started.selectedWeapon)
       ? started.selectedWeapon
       : "pulse";
-    const freshRound = resetRound(selectedHero, safeWeapon, started.metaUpgrades);
+    const arena = getArena(started.selectedArena);
+    const seed = createSeed();
+    const secondaryWeapon = started.selectedSecondaryWeapon;
+    const masteryLevel = getMasteryLevel(started.weaponMastery[safeWeapon]);
+    const secondaryMasteryLevel = secondaryWeapon ? getMasteryLevel(started.weaponMastery[secondaryWeapon]) : 0;
+    const freshRound = createRoundSnapshot(
+      resetRound(
+        selectedHero,
+        safeWeapon,
+        started.metaUpgrades,
+        seed,
+        mode.id,
+        arena.id,
+        aimMode,
+        masteryLevel,
+        secondaryWeapon,
+        secondaryMasteryLevel,
+      ),
+    );
     roundRef.current = freshRound;
+    simulationBlendRef.current = 1;
+    simulationHostRef.current?.send({
+      type: "start",
+      loadout: {
+        seed,
+        heroId: selectedHero,
+        weaponId: safeWeapon,
+        modeId: mode.id,
+        arenaId: arena.id,
+        aimMode,
+        masteryLevel,
+        secondaryWeaponId: secondaryWeapon,
+        secondaryMasteryLevel,
+        metaUpgrades: started.metaUpgrades,
+      },
+    });
+    pendingActionsRef.current = [];
+    playbackRef.current = null;
+    setActiveReplay(null);
     closeUpgradeSelection();
 
     setStatusText(
-      `${hero.name} entered the arena with ${getWeapon(safeWeapon).name}. Build power and trigger hero skill with E.`,
+      `${hero.name} entered ${mode.name} on ${arena.name} with ${formatWeaponLoadout(safeWeapon, secondaryWeapon)}. ` +
+        "Build power and trigger hero skill with E.",
     );
     setRoundSummary(null);
     setIsPaused(false);
     setLiveStats(toLiveStats(freshRound));
     setPhase("playing");
     phaseRef.current = "playing";
-  }, [closeUpgradeSelection, recordEvent, selectedHero, selectedWeapon, writeProfile]);
+  }, [
+    aimMode,
+    closeUpgradeSelection,
+    recordEvent,
+    selectedArena,
+    selectedHero,
+    selectedMode,
+    selectedSecondaryWeapon,
+    selectedWeapon,
+    writeProfile,
+  ]);
 
   const closeRewarded = useCallback(() => {
     if (adIntervalRef.current) {
@@ -1455,17 +1639,32 @@ export default function StickPartyGame() {
     setStatusText("Profile nickname updated.");
   }, [nicknameDraft, writeProfile]);
 
+  // Picking the weapon already in the other slot swaps the two; picking the current secondary again empties that slot.
   const selectWeaponLoadout = useCallback(
-    (weaponId: WeaponId) => {
+    (weaponId: WeaponId, slot: WeaponSlot = "primary") => {
       const selected = writeProfile((current) => {
         if (!current.unlockedWeapons.includes(weaponId)) {
           return current;
         }
 
-        return {
-          ...current,
-          selectedWeapon: weaponId,
-        };
+        if (slot === "primary") {
+          return {
+            ...current,
+            selectedWeapon: weaponId,
+            selectedSecondaryWeapon:
+              current.selectedSecondaryWeapon === weaponId ? current.selectedWeapon : current.selectedSecondaryWeapon,
+          };
+        }
+
+        if (current.selectedSecondaryWeapon === weaponId) {
+          return { ...current, selectedSecondaryWeapon: null };
+        }
+        if (current.selectedWeapon === weaponId) {
+          return current.selectedSecondaryWeapon
+            ? { ...current, selectedWeapon: current.selectedSecondaryWeapon, selectedSecondaryWeapon: weaponId }
+            : current;
+        }
+        return { ...current, selectedSecondaryWeapon: weaponId };
       });
 
       if (!selected || !selected.unlockedWeapons.includes(weaponId)) {
@@ -1473,8 +1672,15 @@ export default function StickPartyGame() {
         return;
       }
 
-      setSelectedWeapon(weaponId);
-      setStatusText(`Loadout selected: ${getWeapon(weaponId).name}.`);
+      setSelectedWeapon(selected.selectedWeapon);
+      setSelectedSecondaryWeapon(selected.selectedSecondaryWeapon);
+      if (slot === "secondary" && selected.selectedWeapon === weaponId && !selected.selectedSecondaryWeapon) {
+        setStatusText("Pick a different weapon for the secondary slot.");
+        return;
+      }
+      setStatusText(
+        `Loadout selected: ${formatWeaponLoadout(selected.selectedWeapon, selected.selectedSecondaryWeapon)}.`,
+      );
     },
     [writeProfile],
   );
@@ -1531,6 +1737,85 @@ export default function StickPartyGame() {
     [recordEvent, selectWeaponLoadout, writeProfile],
   );
 
+  const selectArenaLoadout = useCallback(
+    (arenaId: ArenaId) => {
+      const selected = writeProfile((current) => {
+        if (!current.unlockedArenas.includes(arenaId)) {
+          return current;
+        }
+
+        return {
+          ...current,
+          selectedArena: arenaId,
+        };
+      });
+
+      if (!selected || !selected.unlockedArenas.includes(arenaId)) {
+        setStatusText("Unlock this arena before selecting it.");
+        return;
+      }
+
+      const arena = getArena(arenaId);
+      setSelectedArena(arenaId);
+      setLiveStats((current) => ({ ...current, arenaName: arena.name }));
+      setStatusText(`Arena selected: ${arena.name}.`);
+    },
+    [writeProfile],
+  );
+
+  const selectAimMode = useCallback(
+    (mode: AimMode) => {
+      writeProfile((current) => ({
+        ...current,
+        aimMode: mode,
+      }));
+      setAimMode(mode);
+      setStatusText(`Aim mode: ${AIM_MODE_LABELS[mode].name}.`);
+    },
+    [writeProfile],
+  );
+
+  const unlockArena = useCallback(
+    (arenaId: ArenaId) => {
+      const definition = getArena(arenaId);
+      let unlocked = false;
+      const updated = writeProfile((current) => {
+        if (current.unlockedArenas.includes(arenaId) || current.credits < definition.unlockCredits) {
+          return current;
+        }
+
+        unlocked = true;
+        const next: PlayerProfile = {
+          ...current,
+          credits: current.credits - definition.unlockCredits,
+          unlockedArenas: [...current.unlockedArenas, arenaId],
+          selectedArena: arenaId,
+        };
+        return recordEvent(next, "arena_unlocked", {
+          arena: definition.name,
+          source: "credits",
+          cost_credits: definition.unlockCredits,
+        });
+      });
+
+      if (!updated) {
+        return;
+      }
+
+      if (unlocked) {
+        setSelectedArena(arenaId);
+        setLiveStats((current) => ({ ...current, arenaName: definition.name }));
+        setStatusText(`Unlocked ${definition.name}. New arena ready.`);
+      } else {
+        setStatusText(
+          `Need ${formatInt(definition.unlockCredits)} credits, or a best score of ` +
+            `${formatInt(definition.unlockBestScore)}.`,
+        );
+      }
+    },
+    [recordEvent, writeProfile],
+  );
+
   const purchaseMetaUpgrade = useCallback(
     (upgradeId: keyof MetaUpgradeLevels) => {
       const definition = META_UPGRADES.find((item) => item.id === upgradeId);
@@ -1642,159 +1927,120 @@ export default function StickPartyGame() {
     setStatusText("Tutorial hidden. You can still start with Space.");
   }, [writeProfile]);
 
-  const chooseUpgrade = useCallback(
-    (upgradeId: UpgradeId) => {
+  const sendLevelUpAction = useCallback(
+    (action: LevelUpAction) => {
       if (!upgradeOpenRef.current || phaseRef.current !== "playing") {
         return;
       }
 
-      const round = roundRef.current;
-      const title = applyUpgrade(round, upgradeId);
-      closeUpgradeSelection();
-      syncLiveStats();
-      setStatusText(`${title} activated.`);
+      simulationHostRef.current?.send({
+        type: "level_up",
+        action,
+        input: captureInput(
+          keyboardRef.current,
+          resolvePointerInput(roundRef.current, pointerRef.current),
+          resolveAimInput(roundRef.current, mouseAimRef.current, aimKeysRef.current),
+        ),
+      });
+      // Rerolls and banishes keep the picker open until the new offers arrive.
+      if (action.type === "upgrade" || action.type === "skip") {
+        closeUpgradeSelection();
+      }
+    },
+    [closeUpgradeSelection],
+  );
+
+  const chooseUpgrade = useCallback(
+    (upgradeId: UpgradeId) => {
+      sendLevelUpAction(isBanishArmed ? { type: "banish", upgradeId } : { type: "upgrade", upgradeId });
     },
-    [closeUpgradeSelection, syncLiveStats],
+    [isBanishArmed, sendLevelUpAction],
   );
 
   const triggerDash = useCallback(() => {
     if (phaseRef.current !== "playing" || isPaused || upgradeOpenRef.current) {
-      return;
-    }
-
-    const round = roundRef.current;
-    const cooldownLeft = round.dashReadyAt - round.elapsed;
-    if (cooldownLeft > 0) {
-      setStatusText(`Dash cooldown ${cooldownLeft.toFixed(1)}s.`);
-      return;
-    }
-
-    let dx = 0;
-    let dy = 0;
-
-    if (pointerRef.current.active) {
-      dx = pointerRef.current.x - round.playerX;
-      dy = pointerRef.current.y - round.playerY;
-    } else {
-      if (keyboardRef.current.left) {
-        dx -= 1;
-      }
-      if (keyboardRef.current.right) {
-        dx += 1;
-      }
-      if (keyboardRef.current.up) {
-        dy -= 1;
-      }
-      if (keyboardRef.current.down) {
-        dy += 1;
-      }
-
-      if (dx === 0 && dy === 0) {
-        const nearest = findNearestEnemy(round);
-        if (nearest) {
-          dx = round.playerX - nearest.x;
-          dy = round.playerY - nearest.y;
-        } else {
-          dx = 1;
-          dy = 0;
-        }
-      }
+      return;
     }
 
-    const direction = normalize(dx, dy);
-    round.dashDirX = direction.x || 1;
-    round.dashDirY = direction.y;
-    round.dashingUntil = round.elapsed + DASH_DURATION_SECONDS;
-    round.invulnerableUntil = Math.max(round.invulnerableUntil, round.elapsed + DASH_DURATION_SECONDS * 1.05);
-    round.dashReadyAt = round.elapsed + round.build.dashCooldown;
-
-    syncLiveStats();
-  }, [isPaused, syncLiveStats]);
+    pendingActionsRef.current.push({ type: "dash" });
+  }, [isPaused]);
 
   const triggerHeroPower = useCallback(() => {
     if (phaseRef.current !== "playing" || isPaused || upgradeOpenRef.current) {
       return;
     }
 
-    const round = roundRef.current;
-    if (round.powerCharge < 100) {
-      setStatusText(`Power charging: ${Math.floor(round.powerCharge)}%.`);
+    pendingActionsRef.current.push({ type: "power" });
+  }, [isPaused]);
+
+  const openReplay = useCallback((replay: RunReplay | null) => {
+    if (!replay || phaseRef.current === "playing") {
       return;
     }
 
-    const hero = getHero(round.heroId);
-    if (hero.id === "viper") {
-      round.frenzyUntil = Math.max(round.frenzyUntil, round.elapsed + 6.5);
-      round.dashingUntil = round.elapsed + 0.44;
-      round.invulnerableUntil = Math.max(round.invulnerableUntil, round.elapsed + 0.85);
+    if (phaseRef.current !== "replay") {
+      replayReturnPhaseRef.current = phaseRef.current;
+    }
 
-      for (let i = round.enemies.length - 1; i >= 0; i -= 1) {
-        const enemy = round.enemies[i];
-        const distance = Math.hypot(enemy.x - round.playerX, enemy.y - round.playerY);
-        if (distance > 132) {
-          continue;
-        }
+    playbackRef.current = createPlayback(replay);
+    replayPausedRef.current = false;
+    replaySpeedRef.current = 1;
+    setActiveReplay(replay);
+    setReplayTick(0);
+    setIsReplayPaused(false);
+    setReplaySpeed(1);
+    setStatusText(
+      `Watching replay: ${getHero(replay.heroId).name} / ` +
+        `${formatWeaponLoadout(replay.weaponId, replay.secondaryWeaponId)}, score ${formatInt(replay.score)}.`,
+    );
+    setPhase("replay");
+    phaseRef.current = "replay";
+  }, []);
 
-        enemy.hp -= enemy.elite ? 6 : 9;
-        if (enemy.hp <= 0) {
-          onEnemyDefeated(round, enemy);
-          round.enemies.splice(i, 1);
-        }
-      }
-      setStatusText("Blade Storm active: dash burst and frenzy engaged.");
-    } else if (hero.id === "titan") {
-      round.build.shield = round.build.maxShield;
-      round.invulnerableUntil = Math.max(round.invulnerableUntil, round.elapsed + 3.1);
-      round.stasisUntil = Math.max(round.stasisUntil, round.elapsed + 1.3);
-      setStatusText("Fortress Guard: shields restored and damage immunity active.");
-    } else if (hero.id === "nova") {
-      const totalShots = 22;
-      for (let i = 0; i < totalShots; i += 1) {
-        const angle = (Math.PI * 2 * i) / totalShots;
-        round.projectiles.push({
-          id: nextId(),
-          x: round.playerX,
-          y: round.playerY,
-          vx: Math.cos(angle) * PROJECTILE_SPEED * 1.18,
-          vy: Math.sin(angle) * PROJECTILE_SPEED * 1.18,
-          ttl: 1.05,
-          damage: round.build.shotDamage + 2,
-          radius: 3.4,
-          pierce: 0,
-        });
-      }
-      round.frenzyUntil = Math.max(round.frenzyUntil, round.elapsed + 3.5);
-      setStatusText("Solar Ring unleashed: radial burst fired.");
+  const closeReplay = useCallback(() => {
+    if (phaseRef.current !== "replay") {
+      return;
+    }
+
+    const returnPhase = replayReturnPhaseRef.current;
+    playbackRef.current = null;
+    setActiveReplay(null);
+    setStatusText("Replay closed.");
+    setPhase(returnPhase);
+    phaseRef.current = returnPhase;
+  }, []);
+
+  const toggleReplayPause = useCallback(() => {
+    const playback = playbackRef.current;
+    if (!playback) {
+      return;
+    }
+
+    if (playback.finished) {
+      seekPlayback(playback, 0);
+      replayPausedRef.current = false;
     } else {
-      round.stasisUntil = Math.max(round.stasisUntil, round.elapsed + 5.1);
-      const targetIds = [...round.enemies]
-        .sort(
-          (a, b) =>
-            Math.hypot(a.x - round.playerX, a.y - round.playerY) -
-            Math.hypot(b.x - round.playerX, b.y - round.playerY),
-        )
-        .slice(0, 6)
-        .map((enemy) => enemy.id);
-
-      for (const targetId of targetIds) {
-        const enemyIndex = round.enemies.findIndex((enemy) => enemy.id === targetId);
-        if (enemyIndex < 0) {
-          continue;
-        }
+      replayPausedRef.current = !replayPausedRef.current;
+    }
 
-        const enemy = round.enemies[enemyIndex];
-        enemy.hp -= enemy.elite ? 10 : 999;
-        if (enemy.hp <= 0) {
-          onEnemyDefeated(round, enemy);
-          round.enemies.splice(enemyIndex, 1);
-        }
-      }
-      setStatusText("Arc Storm released: target zaps and field freeze.");
+    setIsReplayPaused(replayPausedRef.current);
+    setReplayTick(playback.round.tick);
+  }, []);
+
+  const toggleReplaySpeed = useCallback(() => {
+    replaySpeedRef.current = replaySpeedRef.current === 1 ? 2 : 1;
+    setReplaySpeed(replaySpeedRef.current);
+  }, []);
+
+  const seekReplay = useCallback((tick: number) => {
+    const playback = playbackRef.current;
+    if (!playback) {
+      return;
     }
 
-    round.powerCharge = 0;
-    syncLiveStats();
-  }, [isPaused, syncLiveStats]);
+    seekPlayback(playback, tick);
+    setReplayTick(playback.seekTarget ?? playback.round.tick);
+  }, []);
 
   useEffect(() => {
     const loaded = loadProfile();
@@ -1802,14 +2048,20 @@ export default function StickPartyGame() {
     const saved = saveProfile(withLogin);
 
     profileRef.current = saved;
+    replayLibraryRef.current = loadReplayLibrary();
     const initializationTimer = window.setTimeout(() => {
       setProfile(saved);
       setRewardStatus(rewardedStatus(saved));
       setNicknameDraft(saved.nickname);
       setSelectedWeapon(saved.selectedWeapon);
+      setSelectedSecondaryWeapon(saved.selectedSecondaryWeapon);
+      setSelectedArena(saved.selectedArena);
+      setAimMode(saved.aimMode);
+      setReplayLibrary(replayLibraryRef.current);
       setLiveStats((current) => ({
         ...current,
-        weaponName: getWeapon(saved.selectedWeapon).name,
+        weaponName: formatWeaponLoadout(saved.selectedWeapon, saved.selectedSecondaryWeapon),
+        arenaName: getArena(saved.selectedArena).name,
       }));
     }, 0);
 
@@ -1835,6 +2087,12 @@ export default function StickPartyGame() {
 
   useEffect(() => {
     const telemetryInterval = window.setInterval(() => {
+      if (phaseRef.current === "replay") {
+        const playback = playbackRef.current;
+        setReplayTick(playback ? (playback.seekTarget ?? playback.round.tick) : 0);
+        return;
+      }
+
       if (phaseRef.current !== "playing") {
         return;
       }
@@ -1898,11 +2156,32 @@ export default function StickPartyGame() {
         return;
       }
 
+      if (phaseRef.current === "replay") {
+        if (event.key === " " || key === "p") {
+          event.preventDefault();
+          toggleReplayPause();
+        } else if (event.key === "Escape") {
+          closeReplay();
+        }
+        return;
+      }
+
       if (upgradeOpenRef.current && ["1", "2", "3"].includes(key)) {
         const index = Number(key) - 1;
         const picked = upgradeChoices[index];
         if (picked) {
-          chooseUpgrade(picked.id);
+          chooseUpgrade(picked.upgrade.id);
+        }
+        return;
+      }
+
+      if (upgradeOpenRef.current && ["r", "b", "x"].includes(key)) {
+        if (key === "r") {
+          sendLevelUpAction({ type: "reroll" });
+        } else if (key === "b") {
+          setIsBanishArmed((current) => !current);
+        } else {
+          sendLevelUpAction({ type: "skip" });
         }
         return;
       }
@@ -1919,20 +2198,25 @@ export default function StickPartyGame() {
         return;
       }
 
+      // Twin-stick play moves with WASD and keeps the arrow keys for aiming.
+      const held =
+        event.key.startsWith("Arrow") && roundRef.current.aimMode === "twin_stick"
+          ? aimKeysRef.current
+          : keyboardRef.current;
       if (event.key === "ArrowUp" || key === "w") {
-        keyboardRef.current.up = true;
+        held.up = true;
       }
 
       if (event.key === "ArrowDown" || key === "s") {
-        keyboardRef.current.down = true;
+        held.down = true;
       }
 
       if (event.key === "ArrowLeft" || key === "a") {
-        keyboardRef.current.left = true;
+        held.left = true;
       }
 
       if (event.key === "ArrowRight" || key === "d") {
-        keyboardRef.current.right = true;
+        held.right = true;
       }
 
       if (event.key === " " && phaseRef.current !== "playing") {
@@ -1947,20 +2231,24 @@ export default function StickPartyGame() {
 
     const handleUp = (event: KeyboardEvent): void => {
       const key = event.key.toLowerCase();
+      const held =
+        event.key.startsWith("Arrow") && roundRef.current.aimMode === "twin_stick"
+          ? aimKeysRef.current
+          : keyboardRef.current;
       if (event.key === "ArrowUp" || key === "w") {
-        keyboardRef.current.up = false;
+        held.up = false;
       }
 
       if (event.key === "ArrowDown" || key === "s") {
-        keyboardRef.current.down = false;
+        held.down = false;
       }
 
       if (event.key === "ArrowLeft" || key === "a") {
-        keyboardRef.current.left = false;
+        held.left = false;
       }
 
       if (event.key === "ArrowRight" || key === "d") {
-        keyboardRef.current.right = false;
+        held.right = false;
       }
     };
 
@@ -1971,7 +2259,43 @@ export default function StickPartyGame() {
       window.removeEventListener("keydown", handleDown);
       window.removeEventListener("keyup", handleUp);
     };
-  }, [chooseUpgrade, isFallbackFullscreen, startMatch, toggleFullscreen, triggerDash, triggerHeroPower, upgradeChoices]);
+  }, [
+    chooseUpgrade,
+    closeReplay,
+    isFallbackFullscreen,
+    sendLevelUpAction,
+    startMatch,
+    toggleFullscreen,
+    toggleReplayPause,
+    triggerDash,
+    triggerHeroPower,
+    upgradeChoices,
+  ]);
+
+  useEffect(() => {
+    roundUpdateHandlerRef.current = (update: SimulationUpdate) => {
+      if (phaseRef.current !== "playing") {
+        return;
+      }
+
+      roundRef.current = update.snapshot;
+      simulationBlendRef.current = update.blend;
+      poolStatsRef.current = update.pools;
+      handleRoundEvents(update.events, update.replay);
+    };
+  }, [handleRoundEvents]);
+
+  useEffect(() => {
+    const host = createSimulationHost((update) => {
+      roundUpdateHandlerRef.current(update);
+    });
+    simulationHostRef.current = host;
+
+    return () => {
+      host.dispose();
+      simulationHostRef.current = null;
+    };
+  }, []);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -1985,312 +2309,148 @@ export default function StickPartyGame() {
     }
 
     let lastTick = performance.now();
+    let accumulator = 0;
 
     const run = (time: number): void => {
-      const delta = Math.min(0.05, (time - lastTick) / 1000);
+      const delta = Math.min(MAX_FRAME_SECONDS, (time - lastTick) / 1000);
       lastTick = time;
       damageFlashRef.current = Math.max(0, damageFlashRef.current - delta * 1.9);
       shakeRef.current = Math.max(0, shakeRef.current - delta * 26);
 
       const phaseNow = phaseRef.current;
-      const round = roundRef.current;
-
+      const playback = phaseNow === "replay" ? playbackRef.current : null;
       const simulating = phaseNow === "playing" && !isPaused && !upgradeOpenRef.current;
+      // A seek catches up over several frames before playback resumes.
+      const seeking = playback !== null && advanceSeek(playback);
+      const replaying = playback !== null && !seeking && !playback.finished && !replayPausedRef.current;
       if (simulating) {
-        round.elapsed += delta;
-        round.spawnClock += delta;
-        round.powerCharge = Math.min(100, round.powerCharge + delta * 3.6 * round.powerGainScale);
-
-        round.score += delta * (9 + round.level * 1.6 + round.elapsed * 0.25);
-
-        if (round.contractTarget <= 0 && round.elapsed >= round.nextContractAt) {
-          round.contractTarget = Math.floor(randomInRange(8, 13));
-          round.contractProgress = 0;
-          round.contractExpireAt = round.elapsed + randomInRange(17, 21);
-          round.nextContractAt = round.elapsed + randomInRange(30, 42);
-          setStatusText(`Bounty Contract: defeat ${round.contractTarget} enemies before time runs out.`);
-        }
-
-        if (round.contractTarget > 0 && round.elapsed > round.contractExpireAt) {
-          round.contractTarget = 0;
-          round.contractProgress = 0;
-          setStatusText("Contract failed. Stay alive for the next offer.");
-        }
-
-        if (round.contractTarget > 0 && round.contractProgress >= round.contractTarget) {
-          const contractReward = 180 + round.level * 32;
-          round.score += contractReward;
-          round.build.shield = Math.min(round.build.maxShield, round.build.shield + 1);
-          round.powerCharge = Math.min(100, round.powerCharge + 28);
-          round.contractTarget = 0;
-          round.contractProgress = 0;
-          setStatusText(`Contract complete: +${contractReward} score and shield restored.`);
-        }
-
-        if (round.elapsed >= round.nextEliteAt) {
-          round.enemies.push(createEnemy(round.elapsed, true));
-          round.spawnedEnemies += 1;
-          round.nextEliteAt += randomInRange(30, 38);
-          setStatusText("Elite wave incoming.");
-        }
-
-        const spawnDelay = clamp(START_SPAWN_DELAY - round.elapsed * 0.018, MIN_SPAWN_DELAY, START_SPAWN_DELAY);
-        if (round.spawnClock >= spawnDelay) {
-          round.spawnClock = 0;
-          round.enemies.push(createEnemy(round.elapsed));
-          round.spawnedEnemies += 1;
-
-          if (round.enemies.length > 95) {
-            round.enemies.splice(0, round.enemies.length - 95);
-          }
-        }
-
-        let dx = 0;
-        let dy = 0;
-        if (keyboardRef.current.left) {
-          dx -= 1;
-        }
-        if (keyboardRef.current.right) {
-          dx += 1;
-        }
-        if (keyboardRef.current.up) {
-          dy -= 1;
-        }
-        if (keyboardRef.current.down) {
-          dy += 1;
-        }
-
-        if (pointerRef.current.active) {
-          const pointerVector = normalize(pointerRef.current.x - round.playerX, pointerRef.current.y - round.playerY);
-          dx = pointerVector.x;
-          dy = pointerVector.y;
-        } else {
-          const keyboardVector = normalize(dx, dy);
-          dx = keyboardVector.x;
-          dy = keyboardVector.y;
-        }
-
-        if (dx !== 0 || dy !== 0) {
-          round.dashDirX = dx;
-          round.dashDirY = dy;
-        }
-
-        const dashing = round.elapsed < round.dashingUntil;
-        const moveX = dashing ? round.dashDirX : dx;
-        const moveY = dashing ? round.dashDirY : dy;
-        const moveSpeed = PLAYER_SPEED * round.build.moveSpeed * (dashing ? DASH_MULTIPLIER : 1);
-
-        round.playerX = clamp(round.playerX + moveX * moveSpeed * delta, 18, CANVAS_WIDTH - 18);
-        round.playerY = clamp(round.playerY + moveY * moveSpeed * delta, 18, CANVAS_HEIGHT - 18);
-
-        const frenzyScale = round.frenzyUntil > round.elapsed ? 0.68 : 1;
-        const fireDelay = Math.max(0.12, round.build.fireInterval * frenzyScale);
-        if (round.enemies.length > 0 && round.elapsed - round.lastShotAt >= fireDelay) {
-          spawnVolley(round);
-          round.lastShotAt = round.elapsed;
-        }
-
-        const stasisScale = round.stasisUntil > round.elapsed ? 0.63 : 1;
-
-        for (let enemyIndex = round.enemies.length - 1; enemyIndex >= 0; enemyIndex -= 1) {
-          const enemy = round.enemies[enemyIndex];
-          const direction = normalize(round.playerX - enemy.x, round.playerY - enemy.y);
-          enemy.wobble += delta * (enemy.type === "zigzag" ? 8.4 : 5.4);
-
-          const typeScale = enemy.type === "brute" ? 0.76 : enemy.type === "zigzag" ? 1.08 : 1;
-          const speed = (enemy.baseSpeed + round.elapsed * 2.2) * typeScale * stasisScale;
-          enemy.x += direction.x * speed * delta;
-          enemy.y += direction.y * speed * delta;
-
-          if (enemy.type === "zigzag") {
-            const sideX = -direction.y;
-            const sideY = direction.x;
-            const driftPower = Math.sin(enemy.wobble) * enemy.drift;
-            enemy.x += sideX * driftPower * delta;
-            enemy.y += sideY * driftPower * delta;
-          }
-
-          const collisionDistance = enemy.radius + round.playerRadius;
-          const distance = Math.hypot(enemy.x - round.playerX, enemy.y - round.playerY);
-          if (distance < collisionDistance) {
-            if (round.elapsed <= round.invulnerableUntil) {
-              continue;
-            }
-
-            if (round.build.shield > 0) {
-              round.build.shield -= 1;
-              round.invulnerableUntil = round.elapsed + 1;
+        simulationHostRef.current?.send({
+          type: "frame",
+          frameSeconds: delta,
+          input: captureInput(
+            keyboardRef.current,
+            resolvePointerInput(roundRef.current, pointerRef.current),
+            resolveAimInput(roundRef.current, mouseAimRef.current, aimKeysRef.current),
+          ),
+          actions: pendingActionsRef.current.splice(0),
+        });
+      } else if (replaying) {
+        accumulator += delta * replaySpeedRef.current;
+        while (accumulator >= SIMULATION_STEP_SECONDS && !playback.finished) {
+          accumulator -= SIMULATION_STEP_SECONDS;
+          for (const event of stepPlayback(playback)) {
+            if (event.type === "shield_lost") {
               damageFlashRef.current = Math.min(1, damageFlashRef.current + 0.65);
               shakeRef.current = Math.min(14, shakeRef.current + 8.5);
-              setStatusText(`Hit taken. Shield left: ${round.build.shield}/${round.build.maxShield}.`);
-              round.enemies.splice(enemyIndex, 1);
-              continue;
-            }
-
-            damageFlashRef.current = 1;
-            shakeRef.current = Math.min(20, shakeRef.current + 14);
-            handleRoundEnd({ ...round, enemies: [...round.enemies] });
-            const meta = profileRef.current?.metaUpgrades ?? DEFAULT_META_UPGRADES;
-            roundRef.current = resetRound(round.heroId, round.weaponId, meta);
-            break;
-          }
-        }
-
-        for (let projectileIndex = round.projectiles.length - 1; projectileIndex >= 0; projectileIndex -= 1) {
-          const projectile = round.projectiles[projectileIndex];
-          projectile.x += projectile.vx * delta;
-          projectile.y += projectile.vy * delta;
-          projectile.ttl -= delta;
-
-          const outOfBounds =
-            projectile.x < -20 ||
-            projectile.x > CANVAS_WIDTH + 20 ||
-            projectile.y < -20 ||
-            projectile.y > CANVAS_HEIGHT + 20;
-          if (projectile.ttl <= 0 || outOfBounds) {
-            round.projectiles.splice(projectileIndex, 1);
-            continue;
-          }
-
-          for (let enemyIndex = round.enemies.length - 1; enemyIndex >= 0; enemyIndex -= 1) {
-            const enemy = round.enemies[enemyIndex];
-            const hitDistance = projectile.radius + enemy.radius;
-            const distance = Math.hypot(projectile.x - enemy.x, projectile.y - enemy.y);
-            if (distance > hitDistance) {
-              continue;
-            }
-
-            enemy.hp -= projectile.damage;
-            if (enemy.hp <= 0) {
-              onEnemyDefeated(round, enemy);
-              round.enemies.splice(enemyIndex, 1);
+            } else if (event.type === "defeated") {
+              damageFlashRef.current = 1;
+              shakeRef.current = Math.min(20, shakeRef.current + 14);
             }
-
-            if (projectile.pierce > 0) {
-              projectile.pierce -= 1;
-              projectile.damage = Math.max(1, projectile.damage - 1);
-            } else {
-              round.projectiles.splice(projectileIndex, 1);
-            }
-            break;
-          }
-        }
-
-        const pickupRadius = round.build.pickupRadius;
-        for (let orbIndex = round.orbs.length - 1; orbIndex >= 0; orbIndex -= 1) {
-          const orb = round.orbs[orbIndex];
-          orb.ttl -= delta;
-          if (orb.ttl <= 0) {
-            round.orbs.splice(orbIndex, 1);
-            continue;
-          }
-
-          const dxToPlayer = round.playerX - orb.x;
-          const dyToPlayer = round.playerY - orb.y;
-          const distance = Math.hypot(dxToPlayer, dyToPlayer);
-
-          if (distance < pickupRadius + round.playerRadius) {
-            round.xp += orb.xp;
-            round.score += orb.score;
-            round.orbs.splice(orbIndex, 1);
-            continue;
-          }
-
-          if (distance < pickupRadius * 3) {
-            const pullVector = normalize(dxToPlayer, dyToPlayer);
-            const pullSpeed = clamp(92 + (pickupRadius - distance) * 0.9, 60, 280);
-            orb.x += pullVector.x * pullSpeed * delta;
-            orb.y += pullVector.y * pullSpeed * delta;
-          }
-        }
-
-        for (let pickupIndex = round.pickups.length - 1; pickupIndex >= 0; pickupIndex -= 1) {
-          const pickup = round.pickups[pickupIndex];
-          pickup.ttl -= delta;
-          if (pickup.ttl <= 0) {
-            round.pickups.splice(pickupIndex, 1);
-            continue;
-          }
-
-          const distance = Math.hypot(pickup.x - round.playerX, pickup.y - round.playerY);
-          if (distance > pickup.radius + round.playerRadius + 2) {
-            continue;
           }
-
-          if (pickup.kind === "shield") {
-            round.build.shield = Math.min(round.build.maxShield, round.build.shield + 1);
-          } else if (pickup.kind === "frenzy") {
-            round.frenzyUntil = Math.max(round.frenzyUntil, round.elapsed + 8);
-          } else {
-            round.stasisUntil = Math.max(round.stasisUntil, round.elapsed + 6.5);
-          }
-
-          round.pickups.splice(pickupIndex, 1);
-        }
-
-        if (round.elapsed > round.comboExpireAt) {
-          round.combo = 1;
-        }
-
-        if (round.xp >= round.xpToNext) {
-          round.xp -= round.xpToNext;
-          round.level += 1;
-          round.xpToNext = Math.floor(round.xpToNext * 1.22 + 16);
-          openUpgradeSelection();
         }
+      } else {
+        accumulator = 0;
       }
 
-      const drawState = roundRef.current;
+      const blend = simulating
+        ? simulationBlendRef.current
+        : replaying
+          ? Math.min(1, accumulator / SIMULATION_STEP_SECONDS)
+          : 1;
+      const drawState = playback ? playback.round : roundRef.current;
+      const live = phaseNow === "playing" || phaseNow === "replay";
+      const playerX = lerp(drawState.prevPlayerX, drawState.playerX, blend);
+      const playerY = lerp(drawState.prevPlayerY, drawState.playerY, blend);
+      const camera = getCameraView(drawState, blend);
+      const arena = getArena(drawState.arenaId);
+      context.fillStyle = arena.palette.backgroundTo;
+      context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
       context.save();
-      if (phaseNow === "playing" && shakeRef.current > 0.05) {
+      if (live && shakeRef.current > 0.05) {
         const intensity = shakeRef.current;
         context.translate(randomInRange(-intensity, intensity), randomInRange(-intensity, intensity));
       }
 
-      drawArenaBackground(context);
+      context.save();
+      context.translate(-camera.left, -camera.top);
+      drawArenaBackground(context, arena.palette, camera);
+      drawArenaHazard(context, arena, drawState.elapsed, camera);
+      drawObstacles(context, drawState.obstacles, arena.palette);
 
       for (const orb of drawState.orbs) {
-        drawOrb(context, orb);
+        drawOrb(context, orb, blend);
       }
 
       for (const pickup of drawState.pickups) {
         drawPickup(context, pickup);
       }
 
+      const projectileColor = getMasteryColor(drawState.weaponId, drawState.masteryLevel);
+      const secondaryColor = drawState.secondaryWeaponId
+        ? getMasteryColor(drawState.secondaryWeaponId, drawState.secondaryMasteryLevel)
+        : null;
       for (const projectile of drawState.projectiles) {
-        drawProjectile(context, projectile);
+        drawProjectile(context, projectile, blend, projectile.secondary ? secondaryColor : projectileColor);
       }
 
       for (const enemy of drawState.enemies) {
+        const enemyX = lerp(enemy.prevX, enemy.x, blend);
+        const enemyY = lerp(enemy.prevY, enemy.y, blend);
+        if (enemy.type === "boss") {
+          drawBoss(context, enemy, enemyX, enemyY, drawState.elapsed);
+          continue;
+        }
+
         const color = enemy.elite ? "#c39cff" : `hsl(${enemy.hue} 90% 63%)`;
-        drawStick(context, enemy.x, enemy.y, enemy.radius, color, drawState.playerX - enemy.x);
+        drawStick(context, enemyX, enemyY, enemy.radius, color, playerX - enemyX);
+        drawEnemyTraits(context, enemy, enemyX, enemyY, drawState.elapsed);
 
         const hpWidth = enemy.radius * 1.8;
         const hpRatio = clamp(enemy.hp / enemy.maxHp, 0, 1);
         context.fillStyle = "rgba(3,8,16,0.7)";
-        context.fillRect(enemy.x - hpWidth / 2, enemy.y - enemy.radius - 12, hpWidth, 4);
+        context.fillRect(enemyX - hpWidth / 2, enemyY - enemy.radius - 12, hpWidth, 4);
         context.fillStyle = enemy.elite ? "#c39cff" : "#ffcb72";
-        context.fillRect(enemy.x - hpWidth / 2, enemy.y - enemy.radius - 12, hpWidth * hpRatio, 4);
+        context.fillRect(enemyX - hpWidth / 2, enemyY - enemy.radius - 12, hpWidth * hpRatio, 4);
+      }
+
+      for (const projectile of drawState.hostileProjectiles) {
+        drawHostileProjectile(context, projectile, blend);
       }
 
       const playerInvulnerable = drawState.elapsed <= drawState.invulnerableUntil;
       const playerColor = playerInvulnerable
         ? "#ffe3a1"
-        : phaseNow === "playing"
+        : live
           ? getHero(drawState.heroId).color
           : "#89c2ff";
       drawStick(
         context,
-        drawState.playerX,
-        drawState.playerY,
+        playerX,
+        playerY,
         drawState.playerRadius,
         playerColor,
-        pointerRef.current.active ? pointerRef.current.x - drawState.playerX : drawState.dashDirX,
+        drawState.aimMode !== "auto"
+          ? drawState.aimDirX
+          : phaseNow === "playing" && pointerRef.current.active
+            ? screenToWorld(camera, pointerRef.current.x, pointerRef.current.y).x - playerX
+            : drawState.dashDirX,
       );
 
-      drawOffscreenIndicators(context, drawState);
       context.restore();
-      drawHud(context, phaseNow, drawState, isPaused, upgradeOpenRef.current);
+      drawOffscreenIndicators(context, drawState, camera);
+      context.restore();
+      drawHud(
+        context,
+        phaseNow,
+        drawState,
+        playback ? replayPausedRef.current : isPaused,
+        phaseNow === "playing" && upgradeOpenRef.current,
+      );
+
+      const poolStats = playback ? getEntityPoolStats(playback.round) : poolStatsRef.current;
+      if (SHOW_DEBUG_HUD && live && poolStats) {
+        drawDebugHud(context, poolStats, drawState);
+      }
 
       if (damageFlashRef.current > 0.01) {
         const alpha = Math.min(0.34, damageFlashRef.current * 0.28);
@@ -2308,7 +2468,7 @@ export default function StickPartyGame() {
         window.cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [handleRoundEnd, isPaused, openUpgradeSelection]);
+  }, [isPaused]);
 
   useEffect(() => {
     return () => {
@@ -2317,14 +2477,24 @@ export default function StickPartyGame() {
   }, [closeRewarded]);
 
   const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>): void => {
-    const rect = event.currentTarget.getBoundingClientRect();
-    const scaleX = CANVAS_WIDTH / rect.width;
-    const scaleY = CANVAS_HEIGHT / rect.height;
-
+    const point = toCanvasPoint(event);
     pointerRef.current = {
       active: true,
-      x: (event.clientX - rect.left) * scaleX,
-      y: (event.clientY - rect.top) * scaleY,
+      x: point.x,
+      y: point.y,
+    };
+  };
+
+  // With mouse aim the mouse aims while touch and pen keep steering, so hybrid devices can still move.
+  const isAimPointer = (event: React.PointerEvent<HTMLCanvasElement>): boolean =>
+    aimMode === "mouse" && event.pointerType === "mouse";
+
+  const handleAimPointer = (event: React.PointerEvent<HTMLCanvasElement>): void => {
+    const point = toCanvasPoint(event);
+    mouseAimRef.current = {
+      active: event.buttons > 0,
+      x: point.x,
+      y: point.y,
     };
   };
 
@@ -2332,9 +2502,12 @@ export default function StickPartyGame() {
   const dashReady = liveStats.dashLeft <= 0.01;
   const powerReady = liveStats.power >= 99.5;
   const selectedHeroDef = getHero(selectedHero);
-  const selectedWeaponDef = getWeapon(selectedWeapon);
+  const selectedWeaponsName = formatWeaponLoadout(selectedWeapon, selectedSecondaryWeapon);
+  const selectedModeDef = getGameMode(selectedMode);
+  const selectedArenaDef = getArena(selectedArena);
   const activeHeroDef = getHero(liveStats.heroId);
   const unlockedWeapons = profile?.unlockedWeapons ?? ["pulse"];
+  const unlockedArenas = profile?.unlockedArenas ?? ["yard"];
   const missionProgress = profile?.dailyMissionProgress ?? getDefaultMissionProgress();
   const missionClaimed = profile?.dailyMissionClaimed ?? [];
   const dailyMissionRows = DAILY_MISSIONS.map((mission) => {
@@ -2349,6 +2522,10 @@ export default function StickPartyGame() {
     };
   });
   const leaderboardRows = profile?.leaderboard ?? [];
+  const replayRows = [...(replayLibrary.best ? [replayLibrary.best] : []), ...replayLibrary.recent].filter(
+    (replay, index, list) => list.findIndex((entry) => entry.id === replay.id) === index,
+  );
+  const replayFinished = activeReplay !== null && replayTick >= activeReplay.totalTicks;
 
   return (
     <section className="game-screen">
@@ -2378,6 +2555,8 @@ export default function StickPartyGame() {
         <div className="toolbar-pills" aria-label="Live run telemetry">
           <span className="status-pill">{liveStats.heroName}</span>
           <span className="status-pill weapon-pill">{liveStats.weaponName}</span>
+          <span className="status-pill">{liveStats.modeName}</span>
+          <span className="status-pill">{liveStats.arenaName}</span>
           <span className="status-pill">Lvl {liveStats.level}</span>
           <span className="status-pill">Combo x{liveStats.combo}</span>
           <span className="status-pill">Kills {liveStats.kills}</span>
@@ -2413,17 +2592,33 @@ export default function StickPartyGame() {
           width={CANVAS_WIDTH}
           height={CANVAS_HEIGHT}
           className="game-canvas"
-          onPointerDown={handlePointerMove}
+          onPointerDown={(event) => {
+            if (isAimPointer(event)) {
+              handleAimPointer(event);
+            } else {
+              handlePointerMove(event);
+            }
+          }}
           onPointerMove={(event) => {
-            if (event.buttons > 0) {
+            if (isAimPointer(event)) {
+              handleAimPointer(event);
+            } else if (event.buttons > 0) {
               handlePointerMove(event);
             }
           }}
-          onPointerUp={() => {
-            pointerRef.current.active = false;
+          onPointerUp={(event) => {
+            if (isAimPointer(event)) {
+              mouseAimRef.current.active = false;
+            } else {
+              pointerRef.current.active = false;
+            }
           }}
-          onPointerLeave={() => {
-            pointerRef.current.active = false;
+          onPointerLeave={(event) => {
+            if (isAimPointer(event)) {
+              mouseAimRef.current.active = false;
+            } else {
+              pointerRef.current.active = false;
+            }
           }}
         />
 
@@ -2439,13 +2634,49 @@ export default function StickPartyGame() {
                 <strong>Quick Tutorial</strong>
                 <p>
                   Move with <code>WASD</code> or drag on mobile. Dash with <code>Shift</code>, trigger hero power with
-                  <code> E</code>, and survive as long as possible.
+                  <code> E</code>, and survive as long as possible. Auto aim fires for you; switch to mouse or
+                  twin-stick aim below to pick your own targets.
                 </p>
                 <button type="button" className="ghost-btn" onClick={dismissTutorial}>
                   Got It
                 </button>
               </div>
             ) : null}
+            <div className="mode-picker" role="radiogroup" aria-label="Game mode">
+              {GAME_MODES.map((mode) => (
+                <button
+                  key={mode.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={selectedMode === mode.id}
+                  className={`mode-card${selectedMode === mode.id ? " active" : ""}`}
+                  onClick={() => {
+                    setSelectedMode(mode.id);
+                    setLiveStats((current) => ({ ...current, modeName: mode.name }));
+                  }}
+                >
+                  <span className="hero-role">{mode.tagline}</span>
+                  <strong>{mode.name}</strong>
+                  <small>{mode.description}</small>
+                  <span className="mode-reward">Rewards x{mode.rewardMultiplier.toFixed(2)}</span>
+                </button>
+              ))}
+            </div>
+            <div className="mode-picker" role="radiogroup" aria-label="Aim mode">
+              {AIM_MODES.map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  role="radio"
+                  aria-checked={aimMode === mode}
+                  className={`mode-card${aimMode === mode ? " active" : ""}`}
+                  onClick={() => selectAimMode(mode)}
+                >
+                  <strong>{AIM_MODE_LABELS[mode].name}</strong>
+                  <small>{AIM_MODE_LABELS[mode].description}</small>
+                </button>
+              ))}
+            </div>
             <div className="hero-picker">
               {HERO_POOL.map((hero) => (
                 <button
@@ -2470,18 +2701,40 @@ export default function StickPartyGame() {
                 </button>
               ))}
             </div>
+            <div className="weapon-slot-toggle" role="radiogroup" aria-label="Weapon slot">
+              {(["primary", "secondary"] as const).map((slot) => (
+                <button
+                  key={slot}
+                  type="button"
+                  role="radio"
+                  aria-checked={weaponSlot === slot}
+                  className={`ghost-btn${weaponSlot === slot ? " active" : ""}`}
+                  onClick={() => setWeaponSlot(slot)}
+                >
+                  {slot === "primary" ? "Primary" : "Secondary (slower)"}:{" "}
+                  {slot === "primary"
+                    ? getWeapon(selectedWeapon).name
+                    : selectedSecondaryWeapon
+                      ? getWeapon(selectedSecondaryWeapon).name
+                      : "None"}
+                </button>
+              ))}
+            </div>
             <div className="weapon-picker">
               {WEAPON_POOL.map((weapon) => {
                 const unlocked = unlockedWeapons.includes(weapon.id);
                 const active = selectedWeapon === weapon.id;
+                const secondary = selectedSecondaryWeapon === weapon.id;
                 return (
                   <button
                     key={weapon.id}
                     type="button"
-                    className={`weapon-card${active ? " active" : ""}${!unlocked ? " locked" : ""}`}
+                    className={`weapon-card${active ? " active" : ""}${secondary ? " secondary" : ""}${
+                      !unlocked ? " locked" : ""
+                    }`}
                     onClick={() => {
                       if (unlocked) {
-                        selectWeaponLoadout(weapon.id);
+                        selectWeaponLoadout(weapon.id, weaponSlot);
                       } else {
                         unlockWeapon(weapon.id);
                       }
@@ -2489,8 +2742,15 @@ export default function StickPartyGame() {
                   >
                     <strong>{weapon.name}</strong>
                     <small>{weapon.description}</small>
+                    {unlocked ? <em className="weapon-mastery">{formatMastery(weapon, profile)}</em> : null}
                     {unlocked ? (
-                      <span>{active ? "Selected" : "Tap to select"}</span>
+                      <span>
+                        {active
+                          ? "Primary"
+                          : secondary
+                            ? "Secondary (tap to clear)"
+                            : `Tap to equip as ${weaponSlot}`}
+                      </span>
                     ) : (
                       <span>
                         Unlock: {formatInt(weapon.unlockCredits)} credits + {formatInt(weapon.unlockCrystals)} crystals
@@ -2500,14 +2760,54 @@ export default function StickPartyGame() {
                 );
               })}
             </div>
+            <div className="arena-picker" role="radiogroup" aria-label="Arena">
+              {ARENAS.map((arena) => {
+                const unlocked = unlockedArenas.includes(arena.id);
+                const active = selectedArena === arena.id;
+                return (
+                  <button
+                    key={arena.id}
+                    type="button"
+                    role="radio"
+                    aria-checked={active}
+                    className={`arena-card${active ? " active" : ""}${!unlocked ? " locked" : ""}`}
+                    style={{ borderLeftColor: arena.palette.obstacleEdge }}
+                    onClick={() => {
+                      if (unlocked) {
+                        selectArenaLoadout(arena.id);
+                      } else {
+                        unlockArena(arena.id);
+                      }
+                    }}
+                  >
+                    <span className="hero-role">{arena.hazard ? arena.hazard.name : arena.tagline}</span>
+                    <strong>{arena.name}</strong>
+                    <small>{arena.description}</small>
+                    {unlocked ? (
+                      <span>Best {formatInt(profile?.arenaBestScores[arena.id] ?? 0)}</span>
+                    ) : (
+                      <span>
+                        Unlock: {formatInt(arena.unlockCredits)} credits or best score{" "}
+                        {formatInt(arena.unlockBestScore)}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
             <ul>
-              <li>Fight runner, zigzag, brute, and elite enemies with off-screen danger indicators.</li>
+              <li>
+                Fight runners, zigzags, brutes, spitters, splitters, shielded, summoners, healers and elites with
+                off-screen danger indicators. Shielded enemies block shots from the front; flank them or pierce with
+                the Lance.
+              </li>
               <li>Collect XP orbs, clear bounty contracts, and level up during runs.</li>
               <li>Use dash + hero power + unlocked weapons to survive late-wave pressure.</li>
             </ul>
             <div className="inline-actions">
               <button type="button" className="primary-btn" onClick={startMatch}>
-                Start Match: {selectedHeroDef.name} / {selectedWeaponDef.name}
+                Start {selectedModeDef.name}: {selectedHeroDef.name} / {selectedWeaponsName} /{" "}
+                {selectedArenaDef.name}
               </button>
               <button
                 type="button"
@@ -2522,7 +2822,8 @@ export default function StickPartyGame() {
               </button>
             </div>
             <small>
-              Selected: {selectedHeroDef.name} ({selectedHeroDef.role}) with {selectedWeaponDef.name} | Quick start:
+              Selected: {selectedHeroDef.name} ({selectedHeroDef.role}) with {selectedWeaponsName} in{" "}
+              {selectedModeDef.name} on {selectedArenaDef.name} | Quick start:
               Space
             </small>
           </div>
@@ -2541,29 +2842,63 @@ export default function StickPartyGame() {
         {phase === "playing" && isUpgradeOpen ? (
           <div className="overlay-card upgrade">
             <h2>Upgrade Time</h2>
-            <p>Choose one upgrade and continue the run.</p>
-            <div className="upgrade-grid">
-              {upgradeChoices.map((choice, index) => (
+            <p>
+              {isBanishArmed
+                ? "Pick an upgrade to banish for the rest of the run."
+                : "Choose one upgrade and continue the run."}
+            </p>
+            <div className={`upgrade-grid${isBanishArmed ? " banishing" : ""}`}>
+              {upgradeChoices.map(({ upgrade, level }, index) => (
                 <button
-                  key={choice.id}
+                  key={upgrade.id}
                   type="button"
-                  className="upgrade-btn"
-                  onClick={() => chooseUpgrade(choice.id)}
+                  className={`upgrade-btn ${isEvolution(upgrade) ? "evolution" : upgrade.rarity}`}
+                  onClick={() => chooseUpgrade(upgrade.id)}
                 >
                   <span className="upgrade-key">{index + 1}</span>
-                  <strong>{choice.title}</strong>
-                  <small>{choice.description}</small>
+                  <span className="upgrade-rarity">{isEvolution(upgrade) ? "Evolution" : upgrade.rarity}</span>
+                  <strong>
+                    {upgrade.title} <span className="upgrade-level">{formatUpgradeLevel(upgrade, level + 1)}</span>
+                  </strong>
+                  <small>{upgrade.description}</small>
                 </button>
               ))}
             </div>
-            <small>Keyboard quick select: 1, 2, 3</small>
+            <div className="inline-actions">
+              <button
+                type="button"
+                className="ghost-btn"
+                disabled={liveStats.rerollsLeft <= 0}
+                onClick={() => sendLevelUpAction({ type: "reroll" })}
+              >
+                Reroll ({liveStats.rerollsLeft})
+              </button>
+              <button
+                type="button"
+                className={`ghost-btn${isBanishArmed ? " active" : ""}`}
+                disabled={liveStats.banishesLeft <= 0 || upgradeChoices.length <= 1}
+                onClick={() => setIsBanishArmed((current) => !current)}
+              >
+                {isBanishArmed ? "Cancel Banish" : `Banish (${liveStats.banishesLeft})`}
+              </button>
+              <button type="button" className="ghost-btn" onClick={() => sendLevelUpAction({ type: "skip" })}>
+                Skip for power
+              </button>
+            </div>
+            <small>Keyboard: 1, 2, 3 pick | R reroll | B banish | X skip</small>
           </div>
         ) : null}
 
         {phase === "game_over" && roundSummary ? (
           <div className="overlay-card results">
-            <h2>Game Over</h2>
+            <h2>{roundSummary.cleared ? `${getGameMode(roundSummary.modeId).name} Cleared` : "Game Over"}</h2>
             <div className="result-grid">
+              <p>
+                Mode <strong>{getGameMode(roundSummary.modeId).name}</strong>
+              </p>
+              <p>
+                Arena <strong>{getArena(roundSummary.arenaId).name}</strong>
+              </p>
               <p>
                 Score <strong>{formatInt(roundSummary.score)}</strong>
               </p>
@@ -2579,6 +2914,9 @@ export default function StickPartyGame() {
               <p>
                 Best combo <strong>x{formatInt(roundSummary.bestCombo)}</strong>
               </p>
+              <p>
+                Bosses defeated <strong>{formatInt(roundSummary.bossesDefeated)}</strong>
+              </p>
               <p>
                 Threats spawned <strong>{formatInt(roundSummary.spawnedEnemies)}</strong>
               </p>
@@ -2591,7 +2929,42 @@ export default function StickPartyGame() {
               <p>
                 Match crystals <strong>+{formatInt(roundSummary.rewardCrystals)}</strong>
               </p>
+              <p>
+                Mode bonus <strong>x{getGameMode(roundSummary.modeId).rewardMultiplier.toFixed(2)}</strong>
+              </p>
+              <p>
+                Run seed <strong>{roundSummary.seed}</strong>
+              </p>
               {roundSummary.isBestScore ? <p className="highlight">New personal best.</p> : null}
+              {roundSummary.isArenaBest && !roundSummary.isBestScore ? (
+                <p className="highlight">New best on {getArena(roundSummary.arenaId).name}.</p>
+              ) : null}
+              {roundSummary.unlockedArenas.length > 0 ? (
+                <p className="highlight">
+                  Arena unlocked: {roundSummary.unlockedArenas.map((arenaId) => getArena(arenaId).name).join(", ")}
+                </p>
+              ) : null}
+              {roundSummary.masteryLevelUp !== null ? (
+                <p className="highlight">
+                  Mastery {roundSummary.masteryLevelUp} reached
+                  {roundSummary.masteryPerks.length > 0 ? `: ${roundSummary.masteryPerks.join(", ")}` : ""}.
+                </p>
+              ) : null}
+            </div>
+
+            <div className="build-list">
+              <h3>Final Build</h3>
+              {roundSummary.build.length > 0 ? (
+                <ul>
+                  {roundSummary.build.map(({ upgrade, level }) => (
+                    <li key={upgrade.id} className={isEvolution(upgrade) ? "evolution" : upgrade.rarity}>
+                      {upgrade.title} <span className="upgrade-level">{formatUpgradeLevel(upgrade, level)}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p>No upgrades taken.</p>
+              )}
             </div>
 
             <div className="rewarded-box">
@@ -2616,11 +2989,46 @@ export default function StickPartyGame() {
                 <button type="button" className="ghost-btn" onClick={startMatch}>
                   Play Again
                 </button>
+                {findReplay(replayLibrary, roundSummary.replayId) ? (
+                  <button
+                    type="button"
+                    className="ghost-btn"
+                    onClick={() => openReplay(findReplay(replayLibrary, roundSummary.replayId))}
+                  >
+                    Watch Replay
+                  </button>
+                ) : null}
               </div>
             </div>
           </div>
         ) : null}
 
+        {phase === "replay" && activeReplay ? (
+          <div className="replay-controls" aria-label="Replay controls">
+            <button type="button" className="ghost-btn" onClick={toggleReplayPause}>
+              {replayFinished ? "Restart" : isReplayPaused ? "Play" : "Pause"}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={activeReplay.totalTicks}
+              value={Math.min(replayTick, activeReplay.totalTicks)}
+              onChange={(event) => seekReplay(Number(event.target.value))}
+              aria-label="Seek replay"
+            />
+            <time>
+              {formatSeconds(replayTick * SIMULATION_STEP_SECONDS)} /{" "}
+              {formatSeconds(activeReplay.totalTicks * SIMULATION_STEP_SECONDS)}
+            </time>
+            <button type="button" className="ghost-btn" onClick={toggleReplaySpeed} aria-pressed={replaySpeed > 1}>
+              {replaySpeed}x
+            </button>
+            <button type="button" className="ghost-btn" onClick={closeReplay}>
+              Exit
+            </button>
+          </div>
+        ) : null}
+
         {adState !== "idle" ? (
           <div className="ad-overlay">
             <div className="ad-modal">
@@ -2699,7 +3107,10 @@ export default function StickPartyGame() {
             Unlocked weapons: <strong>{formatInt((profile?.unlockedWeapons ?? ["pulse"]).length)}</strong>
           </p>
           <p>
-            Loadout weapon: <strong>{getWeapon(profile?.selectedWeapon ?? "pulse").name}</strong>
+            Loadout weapon:{" "}
+            <strong>
+              {formatWeaponLoadout(profile?.selectedWeapon ?? "pulse", profile?.selectedSecondaryWeapon ?? null)}
+            </strong>
           </p>
           <div className="meta-upgrade-grid">
             {META_UPGRADES.map((upgrade) => {
@@ -2717,7 +3128,11 @@ export default function StickPartyGame() {
                   <strong>{upgrade.title}</strong>
                   <small>{upgrade.description}</small>
                   <span>Lvl {level}/{upgrade.maxLevel}</span>
-                  <span>{maxed ? "Maxed" : `Cost: ${cost.credits} c + ${cost.crystals} x`}</span>
+                  <span>
+                    {maxed
+                      ? "Maxed"
+                      : `Cost: ${cost.credits > 0 ? `${cost.credits} c + ` : ""}${cost.crystals} x`}
+                  </span>
                 </button>
               );
             })}
@@ -2800,15 +3215,59 @@ export default function StickPartyGame() {
           <h3>Local Leaderboard</h3>
           <p className="muted">Top runs on this device.</p>
           <div className="leaderboard-list">
-            {leaderboardRows.slice(0, 10).map((entry, index) => (
-              <div key={`${entry.at}-${entry.score}-${index}`} className="leaderboard-row">
-                <span>#{index + 1}</span>
-                <strong>{formatInt(entry.score)}</strong>
-                <small>{entry.hero} / {getWeapon(entry.weapon).name}</small>
-                <time>{formatSeconds(entry.survivalSeconds)}</time>
+            {leaderboardRows.slice(0, 10).map((entry, index) => {
+              const replay = findReplay(replayLibrary, entry.replayId);
+              return (
+                <div key={`${entry.at}-${entry.score}-${index}`} className="leaderboard-row">
+                  <span>#{index + 1}</span>
+                  <strong>{formatInt(entry.score)}</strong>
+                  <small>
+                    {entry.hero} / {formatWeaponLoadout(entry.weapon, entry.secondaryWeapon)} /{" "}
+                    {getGameMode(entry.mode).name}
+                  </small>
+                  <time>{formatSeconds(entry.survivalSeconds)}</time>
+                  {replay ? (
+                    <button
+                      type="button"
+                      className="ghost-btn"
+                      onClick={() => openReplay(replay)}
+                      disabled={phase === "playing"}
+                    >
+                      Watch
+                    </button>
+                  ) : null}
+                </div>
+              );
+            })}
+            {leaderboardRows.length === 0 ? <p className="muted">No runs yet. Start your first match.</p> : null}
+          </div>
+        </section>
+
+        <section className="meta-card">
+          <h3>Recent Replays</h3>
+          <p className="muted">Your last runs and personal best are kept for playback.</p>
+          <div className="leaderboard-list">
+            {replayRows.map((replay) => (
+              <div key={replay.id} className="leaderboard-row">
+                <span>{replay.id === replayLibrary.best?.id ? "Best" : "Run"}</span>
+                <strong>{formatInt(replay.score)}</strong>
+                <small>
+                  {getHero(replay.heroId).name} /{" "}
+                  {formatWeaponLoadout(replay.weaponId, replay.secondaryWeaponId)} /{" "}
+                  {getGameMode(replay.modeId).name} / {getArena(replay.arenaId).name}
+                </small>
+                <time>{formatSeconds(replay.totalTicks * SIMULATION_STEP_SECONDS)}</time>
+                <button
+                  type="button"
+                  className="ghost-btn"
+                  onClick={() => openReplay(replay)}
+                  disabled={phase === "playing"}
+                >
+                  Watch
+                </button>
               </div>
             ))}
-            {leaderboardRows.length === 0 ? <p className="muted">No runs yet. Start your first match.</p> : null}
+            {!replayLibrary.best ? <p className="muted">Replays appear here after your first run.</p> : null}
           </div>
         </section>
       </div>
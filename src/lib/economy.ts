@@ -1,3 +1,4 @@
+import { createRng, createSeed, nextRandom } from "@/lib/game/rng";
 import { PlayerProfile, refreshDailyCounters } from "@/lib/profile";
 
 export interface CurrencyReward {
@@ -35,12 +36,17 @@ const REWARDED_TIERS: RewardTier[] = [
   { id: "large", credits: 210, crystals: 3, weight: 15 },
 ];
 
-export function calculateMatchReward(score: number): CurrencyReward {
+// The mode multiplier is applied after the caps, so harder modes can pay out above the endless ceiling.
+export function calculateMatchReward(score: number, multiplier = 1): CurrencyReward {
   const cleanScore = Math.max(0, Math.floor(score));
+  const cleanMultiplier = Number.isFinite(multiplier) ? Math.max(0, multiplier) : 1;
   const credits = Math.min(MATCH_CREDITS_MAX, MATCH_CREDITS_BASE + Math.floor(cleanScore * 0.58));
   const crystals = Math.min(MATCH_CRYSTALS_MAX, Math.floor(cleanScore / MATCH_CRYSTAL_STEP));
 
-  return { credits, crystals };
+  return {
+    credits: Math.floor(credits * cleanMultiplier),
+    crystals: Math.floor(crystals * cleanMultiplier),
+  };
 }
 
 export function rewardedTierOdds(): RewardTierOdds[] {
@@ -94,7 +100,8 @@ export function rewardedStatus(profile: PlayerProfile, now = Date.now()): Reward
   };
 }
 
-export function rollRewardedBonus(randomValue = Math.random()): RewardTier {
+// Rolled from its own freshly seeded RNG so the bonus cannot be predicted from the run's seed.
+export function rollRewardedBonus(randomValue = nextRandom(createRng(createSeed()))): RewardTier {
   const totalWeight = REWARDED_TIERS.reduce((acc, tier) => acc + tier.weight, 0);
   const threshold = Math.max(0, Math.min(0.999999, randomValue)) * totalWeight;
 
@@ -0,0 +1,290 @@
+import type { Obstacle } from "@/lib/game/obstacles";
+import type { ArenaId } from "@/lib/profile";
+
+export type ArenaEdge = "top" | "right" | "bottom" | "left";
+
+export interface ArenaPalette {
+  backgroundFrom: string;
+  backgroundTo: string;
+  grid: string;
+  border: string;
+  obstacleFill: string;
+  obstacleEdge: string;
+  coverFill: string;
+  coverEdge: string;
+  hazard: string;
+}
+
+// Belts carry the player and enemies standing on them at (vx, vy) pixels per second.
+export interface ConveyorBelt {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  vx: number;
+  vy: number;
+}
+
+// A beam runs the full width (axis "y") or height (axis "x") of the arena at the given coordinate.
+export interface LaserLane {
+  axis: "x" | "y";
+  at: number;
+}
+
+// Gusts push the player sideways at `force` pixels per second.
+export interface WindHazard {
+  kind: "wind";
+  name: string;
+  interval: number;
+  duration: number;
+  force: number;
+}
+
+export interface ConveyorHazard {
+  kind: "conveyor";
+  name: string;
+  belts: ConveyorBelt[];
+}
+
+export interface LaserHazard {
+  kind: "laser";
+  name: string;
+  interval: number;
+  warning: number;
+  duration: number;
+  width: number;
+  lanes: LaserLane[];
+}
+
+// Hazards run on fixed timers from the start of the round, so they need no state of their own.
+export type ArenaHazardDefinition = WindHazard | ConveyorHazard | LaserHazard;
+
+export interface ArenaDefinition {
+  id: ArenaId;
+  name: string;
+  tagline: string;
+  description: string;
+  // Either price unlocks the arena; reaching the best score milestone does it for free.
+  unlockCredits: number;
+  unlockBestScore: number;
+  palette: ArenaPalette;
+  obstacles: Obstacle[];
+  // Edges of the camera view, not of the world: "left" spawns just past the left side of what the player sees.
+  spawnEdges: ArenaEdge[];
+  hazard: ArenaHazardDefinition | null;
+}
+
+// Layouts are authored for one view-sized tile and repeated ARENA_TILES times along each axis to fill the world, so a
+// 2x2 world shows the same obstacles, belts and laser lanes in every quarter. Hazard timers are shared, so every copy
+// of a belt or lane runs in step.
+export const ARENA_TILE_WIDTH = 960;
+export const ARENA_TILE_HEIGHT = 540;
+export const ARENA_TILES = 2;
+
+function tileObstacles(tile: Obstacle[]): Obstacle[] {
+  const tiled: Obstacle[] = [];
+  for (let row = 0; row < ARENA_TILES; row += 1) {
+    for (let column = 0; column < ARENA_TILES; column += 1) {
+      for (const obstacle of tile) {
+        tiled.push({ ...obstacle, x: obstacle.x + column * ARENA_TILE_WIDTH, y: obstacle.y + row * ARENA_TILE_HEIGHT });
+      }
+    }
+  }
+  return tiled;
+}
+
+function tileBelts(tile: ConveyorBelt[]): ConveyorBelt[] {
+  const tiled: ConveyorBelt[] = [];
+  for (let row = 0; row < ARENA_TILES; row += 1) {
+    for (let column = 0; column < ARENA_TILES; column += 1) {
+      for (const belt of tile) {
+        tiled.push({ ...belt, x: belt.x + column * ARENA_TILE_WIDTH, y: belt.y + row * ARENA_TILE_HEIGHT });
+      }
+    }
+  }
+  return tiled;
+}
+
+// Lanes already span the world, so they only repeat along the axis they sit on.
+function tileLanes(tile: LaserLane[]): LaserLane[] {
+  const tiled: LaserLane[] = [];
+  for (let index = 0; index < ARENA_TILES; index += 1) {
+    for (const lane of tile) {
+      tiled.push({ ...lane, at: lane.at + index * (lane.axis === "y" ? ARENA_TILE_HEIGHT : ARENA_TILE_WIDTH) });
+    }
+  }
+  return tiled;
+}
+
+export const ARENAS: ArenaDefinition[] = [
+  {
+    id: "yard",
+    name: "Training Yard",
+    tagline: "Balanced layout",
+    description: "Pillars, two walls and low cover. Enemies pour in from every side.",
+    unlockCredits: 0,
+    unlockBestScore: 0,
+    palette: {
+      backgroundFrom: "#111d31",
+      backgroundTo: "#07101c",
+      grid: "rgba(255,255,255,0.05)",
+      border: "rgba(255,255,255,0.08)",
+      obstacleFill: "#1d2c44",
+      obstacleEdge: "rgba(150, 185, 235, 0.4)",
+      coverFill: "rgba(120, 150, 190, 0.28)",
+      coverEdge: "rgba(170, 200, 240, 0.55)",
+      hazard: "rgba(255, 255, 255, 0.2)",
+    },
+    obstacles: tileObstacles([
+      { kind: "pillar", shape: "circle", x: 250, y: 150, radius: 26 },
+      { kind: "pillar", shape: "circle", x: 710, y: 150, radius: 26 },
+      { kind: "pillar", shape: "circle", x: 250, y: 390, radius: 26 },
+      { kind: "pillar", shape: "circle", x: 710, y: 390, radius: 26 },
+      { kind: "wall", shape: "box", x: 420, y: 84, width: 120, height: 18 },
+      { kind: "wall", shape: "box", x: 420, y: 438, width: 120, height: 18 },
+      { kind: "cover", shape: "box", x: 112, y: 236, width: 18, height: 68 },
+      { kind: "cover", shape: "box", x: 830, y: 236, width: 18, height: 68 },
+    ]),
+    spawnEdges: ["top", "right", "bottom", "left"],
+    hazard: null,
+  },
+  {
+    id: "rooftop",
+    name: "Rooftop",
+    tagline: "Crosswinds",
+    description: "AC units and vents under an open sky. Gusts shove you sideways; enemies climb the fire escapes.",
+    unlockCredits: 260,
+    unlockBestScore: 4_000,
+    palette: {
+      backgroundFrom: "#2a2238",
+      backgroundTo: "#120f1c",
+      grid: "rgba(255, 214, 170, 0.05)",
+      border: "rgba(255, 196, 140, 0.14)",
+      obstacleFill: "#3a3145",
+      obstacleEdge: "rgba(240, 200, 170, 0.38)",
+      coverFill: "rgba(200, 160, 140, 0.24)",
+      coverEdge: "rgba(240, 200, 170, 0.5)",
+      hazard: "rgba(190, 220, 255, 0.35)",
+    },
+    obstacles: tileObstacles([
+      { kind: "wall", shape: "box", x: 196, y: 96, width: 72, height: 44 },
+      { kind: "wall", shape: "box", x: 692, y: 96, width: 72, height: 44 },
+      { kind: "wall", shape: "box", x: 196, y: 400, width: 72, height: 44 },
+      { kind: "wall", shape: "box", x: 692, y: 400, width: 72, height: 44 },
+      { kind: "pillar", shape: "circle", x: 480, y: 118, radius: 18 },
+      { kind: "pillar", shape: "circle", x: 480, y: 422, radius: 18 },
+      { kind: "cover", shape: "box", x: 336, y: 246, width: 18, height: 48 },
+      { kind: "cover", shape: "box", x: 606, y: 246, width: 18, height: 48 },
+    ]),
+    spawnEdges: ["left", "right"],
+    hazard: { kind: "wind", name: "Crosswind", interval: 11, duration: 3.5, force: 95 },
+  },
+  {
+    id: "factory",
+    name: "Factory",
+    tagline: "Conveyor floor",
+    description: "Machinery walls and two conveyor belts that drag anything standing on them. Bays open top and sides.",
+    unlockCredits: 420,
+    unlockBestScore: 9_000,
+    palette: {
+      backgroundFrom: "#1f2420",
+      backgroundTo: "#0c0f0c",
+      grid: "rgba(255, 220, 120, 0.05)",
+      border: "rgba(255, 200, 90, 0.16)",
+      obstacleFill: "#2f352c",
+      obstacleEdge: "rgba(230, 200, 120, 0.4)",
+      coverFill: "rgba(190, 160, 90, 0.26)",
+      coverEdge: "rgba(230, 200, 120, 0.55)",
+      hazard: "rgba(255, 196, 64, 0.22)",
+    },
+    obstacles: tileObstacles([
+      { kind: "wall", shape: "box", x: 150, y: 180, width: 24, height: 180 },
+      { kind: "wall", shape: "box", x: 786, y: 180, width: 24, height: 180 },
+      { kind: "pillar", shape: "circle", x: 360, y: 150, radius: 22 },
+      { kind: "pillar", shape: "circle", x: 600, y: 150, radius: 22 },
+      { kind: "pillar", shape: "circle", x: 360, y: 390, radius: 22 },
+      { kind: "pillar", shape: "circle", x: 600, y: 390, radius: 22 },
+      { kind: "cover", shape: "box", x: 456, y: 180, width: 48, height: 18 },
+      { kind: "cover", shape: "box", x: 456, y: 342, width: 48, height: 18 },
+    ]),
+    spawnEdges: ["top", "left", "right"],
+    hazard: {
+      kind: "conveyor",
+      name: "Conveyors",
+      belts: tileBelts([
+        { x: 60, y: 62, width: 840, height: 36, vx: 75, vy: 0 },
+        { x: 60, y: 442, width: 840, height: 36, vx: -75, vy: 0 },
+      ]),
+    },
+  },
+  {
+    id: "neon_grid",
+    name: "Neon Grid",
+    tagline: "Laser sweeps",
+    description: "Sparse pylons and laser lanes that flash a warning before they fire. Hostiles spawn on every side.",
+    unlockCredits: 680,
+    unlockBestScore: 16_000,
+    palette: {
+      backgroundFrom: "#0b0f2a",
+      backgroundTo: "#04040f",
+      grid: "rgba(120, 90, 255, 0.14)",
+      border: "rgba(255, 80, 220, 0.3)",
+      obstacleFill: "#1a1440",
+      obstacleEdge: "rgba(110, 230, 255, 0.6)",
+      coverFill: "rgba(110, 230, 255, 0.16)",
+      coverEdge: "rgba(110, 230, 255, 0.55)",
+      hazard: "rgba(255, 70, 200, 0.85)",
+    },
+    obstacles: tileObstacles([
+      { kind: "pillar", shape: "circle", x: 240, y: 135, radius: 16 },
+      { kind: "pillar", shape: "circle", x: 720, y: 135, radius: 16 },
+      { kind: "pillar", shape: "circle", x: 240, y: 405, radius: 16 },
+      { kind: "pillar", shape: "circle", x: 720, y: 405, radius: 16 },
+      { kind: "cover", shape: "box", x: 468, y: 150, width: 24, height: 24 },
+      { kind: "cover", shape: "box", x: 468, y: 366, width: 24, height: 24 },
+    ]),
+    spawnEdges: ["top", "right", "bottom", "left"],
+    hazard: {
+      kind: "laser",
+      name: "Laser Grid",
+      interval: 6,
+      warning: 1.4,
+      duration: 0.7,
+      width: 16,
+      lanes: tileLanes([
+        { axis: "y", at: 135 },
+        { axis: "x", at: 320 },
+        { axis: "y", at: 405 },
+        { axis: "x", at: 640 },
+      ]),
+    },
+  },
+];
+
+export function getArena(arenaId: ArenaId): ArenaDefinition {
+  return ARENAS.find((arena) => arena.id === arenaId) ?? ARENAS[0];
+}
+
+// -1 or 1 while a gust blows, 0 between gusts. Gusts alternate direction and the first one waits a full interval.
+export function getWindDirection(hazard: WindHazard, elapsed: number): number {
+  const cycle = Math.floor(elapsed / hazard.interval);
+  if (cycle === 0 || elapsed - cycle * hazard.interval > hazard.duration) {
+    return 0;
+  }
+  return cycle % 2 === 0 ? -1 : 1;
+}
+
+// Each interval one lane, in order, is telegraphed for `warning` seconds and then fires for `duration`.
+export function getLaserLane(hazard: LaserHazard, elapsed: number): LaserLane | null {
+  const cycle = Math.floor(elapsed / hazard.interval);
+  const into = elapsed - cycle * hazard.interval;
+  if (cycle === 0 || hazard.lanes.length === 0 || into > hazard.warning + hazard.duration) {
+    return null;
+  }
+  return hazard.lanes[(cycle - 1) % hazard.lanes.length];
+}
+
+// False while the current lane is only telegraphed.
+export function isLaserLive(hazard: LaserHazard, elapsed: number): boolean {
+  return getLaserLane(hazard, elapsed) !== null && elapsed % hazard.interval >= hazard.warning;
+}
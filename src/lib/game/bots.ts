@@ -0,0 +1,237 @@
+import { calculateMatchReward } from "@/lib/economy";
+import type { HeroId } from "@/lib/game/content";
+import { normalize } from "@/lib/game/math";
+import { getGameMode } from "@/lib/game/modes";
+import {
+  type AimState,
+  applyRoundAction,
+  ARENA_HEIGHT,
+  ARENA_WIDTH,
+  DEFAULT_META_UPGRADES,
+  releaseRound,
+  resetRound,
+  type RoundAction,
+  type RoundInput,
+  type RoundState,
+  SIMULATION_HZ,
+  SIMULATION_STEP_SECONDS,
+  stepRound,
+  toAimHeading,
+} from "@/lib/game/simulation";
+import type { AimMode, ArenaId, GameModeId, MetaUpgradeLevels, WeaponId } from "@/lib/profile";
+
+export type BotPolicyId = "kite" | "stand_still" | "greedy_orb";
+
+export interface BotDecision {
+  input: RoundInput;
+  actions: RoundAction[];
+}
+
+export interface BotRoundConfig {
+  heroId: HeroId;
+  weaponId: WeaponId;
+  policy: BotPolicyId;
+  seed: number;
+  maxSeconds: number;
+  modeId?: GameModeId;
+  arenaId?: ArenaId;
+  secondaryWeaponId?: WeaponId | null;
+  aimMode?: AimMode;
+  metaUpgrades?: MetaUpgradeLevels;
+}
+
+export interface BotRoundResult {
+  heroId: HeroId;
+  weaponId: WeaponId;
+  secondaryWeaponId: WeaponId | null;
+  modeId: GameModeId;
+  arenaId: ArenaId;
+  aimMode: AimMode;
+  policy: BotPolicyId;
+  seed: number;
+  survivalSeconds: number;
+  survived: boolean;
+  score: number;
+  kills: number;
+  level: number;
+  intensity: number;
+  rewardCredits: number;
+  rewardCrystals: number;
+}
+
+export const BOT_POLICIES: BotPolicyId[] = ["kite", "stand_still", "greedy_orb"];
+
+// Bots re-think a few times per second, roughly like a human player.
+const DECISION_INTERVAL_TICKS = 6;
+const DANGER_RADIUS = 150;
+const WALL_MARGIN = 90;
+
+function idleInput(): RoundInput {
+  return {
+    keyboard: { up: false, down: false, left: false, right: false },
+    pointer: { active: false, x: 0, y: 0 },
+    aim: { active: false, heading: 0 },
+  };
+}
+
+function steerTo(round: RoundState, dx: number, dy: number): RoundInput {
+  const direction = normalize(dx, dy);
+  return {
+    keyboard: { up: false, down: false, left: false, right: false },
+    pointer: {
+      active: direction.x !== 0 || direction.y !== 0,
+      x: Math.round(round.playerX + direction.x * 80),
+      y: Math.round(round.playerY + direction.y * 80),
+    },
+    aim: { active: false, heading: 0 },
+  };
+}
+
+// Manual aim modes only fire where the player points, so the bot points at the closest enemy.
+function aimAtClosest(round: RoundState): AimState {
+  let target: { x: number; y: number } | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const enemy of round.enemies) {
+    const distance = Math.hypot(enemy.x - round.playerX, enemy.y - round.playerY);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      target = enemy;
+    }
+  }
+
+  return target
+    ? { active: true, heading: toAimHeading(target.x - round.playerX, target.y - round.playerY) }
+    : { active: false, heading: 0 };
+}
+
+function powerAction(round: RoundState): RoundAction[] {
+  return round.powerCharge >= 100 ? [{ type: "power" }] : [];
+}
+
+function decideKite(round: RoundState): BotDecision {
+  let awayX = 0;
+  let awayY = 0;
+  let closest = Number.POSITIVE_INFINITY;
+  for (const enemy of round.enemies) {
+    const dx = round.playerX - enemy.x;
+    const dy = round.playerY - enemy.y;
+    const distance = Math.hypot(dx, dy);
+    closest = Math.min(closest, distance);
+    if (distance < DANGER_RADIUS) {
+      const weight = (DANGER_RADIUS - distance) / DANGER_RADIUS;
+      awayX += (dx / Math.max(1, distance)) * weight;
+      awayY += (dy / Math.max(1, distance)) * weight;
+    }
+  }
+
+  // Walls are treated as threats too, otherwise kiting ends pinned in a corner.
+  if (round.playerX < WALL_MARGIN) {
+    awayX += (WALL_MARGIN - round.playerX) / WALL_MARGIN;
+  } else if (round.playerX > ARENA_WIDTH - WALL_MARGIN) {
+    awayX -= (round.playerX - (ARENA_WIDTH - WALL_MARGIN)) / WALL_MARGIN;
+  }
+  if (round.playerY < WALL_MARGIN) {
+    awayY += (WALL_MARGIN - round.playerY) / WALL_MARGIN;
+  } else if (round.playerY > ARENA_HEIGHT - WALL_MARGIN) {
+    awayY -= (round.playerY - (ARENA_HEIGHT - WALL_MARGIN)) / WALL_MARGIN;
+  }
+
+  const actions = powerAction(round);
+  if (closest < round.playerRadius + 40 && round.dashReadyAt <= round.elapsed) {
+    actions.push({ type: "dash" });
+  }
+
+  return { input: steerTo(round, awayX, awayY), actions };
+}
+
+function decideGreedyOrb(round: RoundState): BotDecision {
+  let target: { x: number; y: number } | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const orb of round.orbs) {
+    const distance = Math.hypot(orb.x - round.playerX, orb.y - round.playerY);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      target = orb;
+    }
+  }
+
+  const goal = target ?? { x: ARENA_WIDTH / 2, y: ARENA_HEIGHT / 2 };
+  const dx = goal.x - round.playerX;
+  const dy = goal.y - round.playerY;
+  const input = Math.hypot(dx, dy) < 6 ? idleInput() : steerTo(round, dx, dy);
+  return { input, actions: powerAction(round) };
+}
+
+export function decideBotAction(policy: BotPolicyId, round: RoundState): BotDecision {
+  if (policy === "kite") {
+    return decideKite(round);
+  }
+
+  if (policy === "greedy_orb") {
+    return decideGreedyOrb(round);
+  }
+
+  return { input: idleInput(), actions: [] };
+}
+
+export function runBotRound(config: BotRoundConfig): BotRoundResult {
+  const round = resetRound(
+    config.heroId,
+    config.weaponId,
+    config.metaUpgrades ?? DEFAULT_META_UPGRADES,
+    config.seed,
+    config.modeId,
+    config.arenaId,
+    config.aimMode,
+    0,
+    config.secondaryWeaponId ?? null,
+  );
+  const maxTicks = Math.floor(config.maxSeconds * SIMULATION_HZ);
+  let decision: BotDecision = { input: idleInput(), actions: [] };
+  let defeated = false;
+  let cleared = false;
+
+  while (!defeated && !cleared && round.tick < maxTicks) {
+    if (round.upgradeChoices.length > 0) {
+      applyRoundAction(round, decision.input, { type: "upgrade", upgradeId: round.upgradeChoices[0] });
+    }
+
+    if (round.tick % DECISION_INTERVAL_TICKS === 0) {
+      decision = decideBotAction(config.policy, round);
+      if (round.aimMode !== "auto") {
+        decision.input.aim = aimAtClosest(round);
+      }
+      for (const action of decision.actions) {
+        applyRoundAction(round, decision.input, action);
+      }
+    }
+
+    const events = stepRound(round, decision.input, SIMULATION_STEP_SECONDS);
+    defeated = events.some((event) => event.type === "defeated");
+    cleared = events.some((event) => event.type === "victory");
+  }
+
+  const score = Math.floor(round.score);
+  const reward = calculateMatchReward(score, getGameMode(round.modeId).rewardMultiplier);
+  const result: BotRoundResult = {
+    heroId: config.heroId,
+    weaponId: config.weaponId,
+    secondaryWeaponId: round.secondaryWeaponId,
+    modeId: round.modeId,
+    arenaId: round.arenaId,
+    aimMode: round.aimMode,
+    policy: config.policy,
+    seed: config.seed,
+    // Counted in ticks: summing the float step drifts, so a 60 second cap would floor to 59.
+    survivalSeconds: Math.floor(round.tick / SIMULATION_HZ),
+    survived: !defeated,
+    score,
+    kills: round.kills,
+    level: round.level,
+    intensity: Number(round.difficulty.intensity.toFixed(2)),
+    rewardCredits: reward.credits,
+    rewardCrystals: reward.crystals,
+  };
+  releaseRound(round);
+  return result;
+}
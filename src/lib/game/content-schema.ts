@@ -0,0 +1,986 @@
+import type {
+  BossAttackId,
+  ContentPack,
+  EnemyMovementId,
+  HeroId,
+  HeroPowerBehaviorId,
+  MasteryFireStat,
+  MetaUpgradeStat,
+  SpawnableEnemyType,
+  UpgradeId,
+  UpgradeRarity,
+  UpgradeStat,
+  WaveFormation,
+  WeaponBehaviorId,
+} from "@/lib/game/content";
+import { sampleCurve } from "@/lib/game/math";
+import { type DailyMissionProgress, MAX_MASTERY_LEVEL, type MetaUpgradeLevels, WEAPON_IDS } from "@/lib/profile";
+
+export const CONTENT_FORMAT = "stickparty-content";
+export const CONTENT_VERSION = 1;
+
+export interface ContentError {
+  path: string;
+  message: string;
+}
+
+export type ContentValidation = { ok: true; pack: ContentPack } | { ok: false; errors: ContentError[] };
+
+type JsonObject = Record<string, unknown>;
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  optional?: boolean;
+}
+
+const HERO_IDS: HeroId[] = ["viper", "titan", "nova", "arc"];
+const UPGRADE_IDS: UpgradeId[] = [
+  "rapid_fire",
+  "power_shot",
+  "speed_boost",
+  "multi_shot",
+  "dash_core",
+  "magnet",
+  "ricochet_rounds",
+  "homing_rounds",
+  "explosive_rounds",
+  "split_rounds",
+  "bullet_hell",
+  "phase_runner",
+  "singularity",
+];
+const UPGRADE_RARITIES: UpgradeRarity[] = ["common", "rare", "epic"];
+const ENEMY_TYPES: SpawnableEnemyType[] = [
+  "runner",
+  "zigzag",
+  "brute",
+  "spitter",
+  "splitter",
+  "shielded",
+  "summoner",
+  "healer",
+];
+const WAVE_FORMATIONS: WaveFormation[] = ["edge", "ring", "side_stampede", "swarm_burst"];
+// Enemies with a timed ability share one cooldown, so each can have at most one of these.
+const TIMED_ABILITIES = ["ranged", "summon", "heal"];
+const BOSS_ATTACKS: BossAttackId[] = ["charge", "slam", "summon"];
+const META_UPGRADE_IDS: (keyof MetaUpgradeLevels)[] = ["armor", "agility", "reactor", "tactics", "veto"];
+const MISSION_METRICS: (keyof DailyMissionProgress)[] = ["kills", "survivalSeconds", "matches"];
+const UPGRADE_STATS: UpgradeStat[] = [
+  "fireInterval",
+  "shotDamage",
+  "moveSpeed",
+  "multiShot",
+  "dashCooldown",
+  "pickupRadius",
+  "ricochet",
+  "homing",
+  "blastRadius",
+  "splitShots",
+];
+const META_UPGRADE_STATS: MetaUpgradeStat[] = [
+  "maxShield",
+  "moveSpeed",
+  "dashCooldownReduction",
+  "powerGain",
+  "rerollCharges",
+  "banishCharges",
+];
+// Extra fire fields each weapon behavior needs on top of the shared ones.
+const WEAPON_FIELDS: Record<WeaponBehaviorId, string[]> = {
+  spread_volley: [],
+  single_shot: [],
+  boomerang: ["reach"],
+  orbit_blades: ["reach"],
+  chain_lightning: ["reach", "jumps"],
+  flame_cone: [],
+};
+const MASTERY_FIRE_STATS: MasteryFireStat[] = [
+  "minShots",
+  "extraShots",
+  "damageScale",
+  "bonusDamage",
+  "radius",
+  "pierce",
+  "reach",
+  "jumps",
+];
+const INTEGER_FIRE_STATS: string[] = ["minShots", "extraShots", "bonusDamage", "pierce", "jumps"];
+// Fire fields that only some behaviors have; see WEAPON_FIELDS.
+const WEAPON_ONLY_FIELDS: string[] = ["reach", "jumps"];
+const ENEMY_MOVEMENTS: EnemyMovementId[] = ["chase", "zigzag", "keep_distance"];
+
+const POWER_FIELDS: Record<HeroPowerBehaviorId, string[]> = {
+  blade_storm: ["radius", "damage", "eliteDamage", "frenzySeconds", "dashSeconds", "invulnerableSeconds"],
+  fortress_guard: ["invulnerableSeconds", "stasisSeconds"],
+  solar_ring: ["shots", "speedScale", "ttl", "bonusDamage", "radius", "frenzySeconds"],
+  arc_storm: ["targets", "damage", "eliteDamage", "stasisSeconds"],
+};
+const INTEGER_POWER_FIELDS = ["shots", "targets", "damage", "eliteDamage", "bonusDamage"];
+
+const COLLECTION_KEYS = ["upgrades", "heroes", "weapons", "enemies", "waves", "metaUpgrades", "dailyMissions"] as const;
+type CollectionKey = (typeof COLLECTION_KEYS)[number];
+
+function isObject(value: unknown): value is JsonObject {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (value === null) {
+    return "null";
+  }
+  return typeof value === "string" ? `"${value}"` : typeof value === "object" ? "an object" : String(value);
+}
+
+function readObject(value: unknown, path: string, errors: ContentError[]): JsonObject | null {
+  if (!isObject(value)) {
+    errors.push({ path, message: `expected an object, got ${describe(value)}` });
+    return null;
+  }
+  return value;
+}
+
+function checkKeys(value: JsonObject, allowed: string[], path: string, errors: ContentError[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push({ path: `${path}.${key}`, message: `unknown field (allowed: ${allowed.join(", ")})` });
+    }
+  }
+}
+
+function checkNumber(value: JsonObject, key: string, path: string, errors: ContentError[], rule: NumberRule = {}): void {
+  const field = value[key];
+  if (field === undefined && rule.optional) {
+    return;
+  }
+
+  if (typeof field !== "number" || !Number.isFinite(field)) {
+    errors.push({ path: `${path}.${key}`, message: `expected a number, got ${describe(field)}` });
+    return;
+  }
+  if (rule.integer && !Number.isInteger(field)) {
+    errors.push({ path: `${path}.${key}`, message: `expected a whole number, got ${field}` });
+  }
+  if (rule.min !== undefined && field < rule.min) {
+    errors.push({ path: `${path}.${key}`, message: `must be at least ${rule.min}, got ${field}` });
+  }
+  if (rule.max !== undefined && field > rule.max) {
+    errors.push({ path: `${path}.${key}`, message: `must be at most ${rule.max}, got ${field}` });
+  }
+}
+
+function checkString(value: JsonObject, key: string, path: string, errors: ContentError[]): void {
+  const field = value[key];
+  if (typeof field !== "string" || field.trim().length === 0) {
+    errors.push({ path: `${path}.${key}`, message: `expected a non-empty string, got ${describe(field)}` });
+  }
+}
+
+function checkEnum(
+  value: JsonObject,
+  key: string,
+  allowed: readonly string[],
+  path: string,
+  errors: ContentError[],
+): void {
+  const field = value[key];
+  if (typeof field !== "string" || !allowed.includes(field)) {
+    errors.push({ path: `${path}.${key}`, message: `expected one of ${allowed.join(", ")}, got ${describe(field)}` });
+  }
+}
+
+function checkRange(value: JsonObject, key: string, path: string, errors: ContentError[], min = 0): void {
+  const field = value[key];
+  if (
+    !Array.isArray(field) ||
+    field.length !== 2 ||
+    !field.every((entry) => typeof entry === "number" && Number.isFinite(entry))
+  ) {
+    errors.push({ path: `${path}.${key}`, message: `expected [min, max] numbers, got ${describe(field)}` });
+    return;
+  }
+
+  const [low, high] = field as [number, number];
+  if (low < min) {
+    errors.push({ path: `${path}.${key}[0]`, message: `must be at least ${min}, got ${low}` });
+  }
+  if (high < low) {
+    errors.push({ path: `${path}.${key}`, message: `max ${high} is below min ${low}` });
+  }
+}
+
+function checkSpawnRule(value: unknown, path: string, errors: ContentError[]): void {
+  const spawn = readObject(value, path, errors);
+  if (!spawn) {
+    return;
+  }
+
+  checkKeys(spawn, ["afterSeconds", "chance"], path, errors);
+  checkNumber(spawn, "afterSeconds", path, errors, { min: 0 });
+  checkNumber(spawn, "chance", path, errors, { min: 0, max: 1 });
+}
+
+function checkSpawnCurve(value: unknown, path: string, errors: ContentError[]): void {
+  const spawn = readObject(value, path, errors);
+  if (!spawn) {
+    return;
+  }
+
+  checkKeys(spawn, ["weights"], path, errors);
+  const weights = spawn.weights;
+  if (!Array.isArray(weights) || weights.length === 0) {
+    errors.push({ path: `${path}.weights`, message: `expected a non-empty array, got ${describe(weights)}` });
+    return;
+  }
+
+  let previousSeconds = Number.NEGATIVE_INFINITY;
+  weights.forEach((point, index) => {
+    const pointPath = `${path}.weights[${index}]`;
+    if (!Array.isArray(point) || point.length !== 2 || !point.every((entry) => typeof entry === "number" && Number.isFinite(entry))) {
+      errors.push({ path: pointPath, message: `expected [seconds, weight] numbers, got ${describe(point)}` });
+      return;
+    }
+
+    const [seconds, weight] = point as [number, number];
+    if (seconds < 0) {
+      errors.push({ path: `${pointPath}[0]`, message: `must be at least 0, got ${seconds}` });
+    } else if (seconds <= previousSeconds) {
+      errors.push({ path: `${pointPath}[0]`, message: `must be after the previous point at ${previousSeconds}s` });
+    }
+    if (weight < 0) {
+      errors.push({ path: `${pointPath}[1]`, message: `must be at least 0, got ${weight}` });
+    }
+    previousSeconds = seconds;
+  });
+}
+
+// Weights are piecewise linear, so a positive total at every breakpoint keeps the spawn pool non-empty at all times.
+function checkSpawnTotals(enemies: unknown, errors: ContentError[]): void {
+  if (errors.length > 0 || !Array.isArray(enemies)) {
+    return;
+  }
+
+  const curves = enemies.map((enemy) => (enemy as { spawn: { weights: [number, number][] } }).spawn.weights);
+  const breakpoints = new Set<number>([0]);
+  for (const curve of curves) {
+    for (const [seconds] of curve) {
+      breakpoints.add(seconds);
+    }
+  }
+
+  for (const seconds of Array.from(breakpoints).sort((a, b) => a - b)) {
+    const total = curves.reduce((sum, curve) => sum + sampleCurve(curve, seconds), 0);
+    if (total <= 0) {
+      errors.push({ path: "enemies", message: `no enemy has a spawn weight above 0 at ${seconds}s` });
+      return;
+    }
+  }
+}
+
+function checkList(
+  pack: JsonObject,
+  key: CollectionKey,
+  requiredIds: readonly string[] | null,
+  errors: ContentError[],
+  checkEntry: (entry: JsonObject, path: string) => void,
+): void {
+  const list = pack[key];
+  if (!Array.isArray(list) || list.length === 0) {
+    errors.push({ path: key, message: `expected a non-empty array, got ${describe(list)}` });
+    return;
+  }
+
+  const seen = new Set<string>();
+  list.forEach((candidate, index) => {
+    const id = isObject(candidate) && typeof candidate.id === "string" ? candidate.id : null;
+    const path = id ? `${key}[${id}]` : `${key}[${index}]`;
+    const entry = readObject(candidate, path, errors);
+    if (!entry) {
+      return;
+    }
+
+    if (!id) {
+      errors.push({ path: `${path}.id`, message: `expected a string id, got ${describe(entry.id)}` });
+    } else if (seen.has(id)) {
+      errors.push({ path, message: `duplicate id "${id}"` });
+    } else if (requiredIds && !requiredIds.includes(id)) {
+      errors.push({ path: `${path}.id`, message: `unknown id (expected one of ${requiredIds.join(", ")})` });
+    }
+    if (id) {
+      seen.add(id);
+    }
+    checkEntry(entry, path);
+  });
+
+  for (const requiredId of requiredIds ?? []) {
+    if (!seen.has(requiredId)) {
+      errors.push({ path: key, message: `missing entry for "${requiredId}"` });
+    }
+  }
+}
+
+function checkUpgrade(entry: JsonObject, path: string, errors: ContentError[]): void {
+  checkKeys(entry, ["id", "title", "description", "rarity", "maxLevel", "effects", "requires"], path, errors);
+  checkString(entry, "title", path, errors);
+  checkString(entry, "description", path, errors);
+  checkEnum(entry, "rarity", UPGRADE_RARITIES, path, errors);
+  checkNumber(entry, "maxLevel", path, errors, { min: 1, max: 9, integer: true });
+
+  if (!Array.isArray(entry.effects) || entry.effects.length === 0) {
+    errors.push({ path: `${path}.effects`, message: `expected a non-empty array, got ${describe(entry.effects)}` });
+  } else {
+    entry.effects.forEach((candidate, index) => {
+      const effectPath = `${path}.effects[${index}]`;
+      const effect = readObject(candidate, effectPath, errors);
+      if (!effect) {
+        return;
+      }
+      checkKeys(effect, ["stat", "mode", "amount", "min", "max"], effectPath, errors);
+      checkEnum(effect, "stat", UPGRADE_STATS, effectPath, errors);
+      checkEnum(effect, "mode", ["add", "multiply"], effectPath, errors);
+      checkNumber(effect, "amount", effectPath, errors, { min: 0 });
+      checkNumber(effect, "min", effectPath, errors, { min: 0, optional: true });
+      checkNumber(effect, "max", effectPath, errors, { min: 0, optional: true });
+    });
+  }
+
+  if (entry.requires === undefined) {
+    return;
+  }
+  if (!Array.isArray(entry.requires) || entry.requires.length === 0) {
+    errors.push({ path: `${path}.requires`, message: `expected a non-empty array, got ${describe(entry.requires)}` });
+    return;
+  }
+  entry.requires.forEach((candidate, index) => {
+    const requirementPath = `${path}.requires[${index}]`;
+    const requirement = readObject(candidate, requirementPath, errors);
+    if (!requirement) {
+      return;
+    }
+    checkKeys(requirement, ["upgradeId", "level"], requirementPath, errors);
+    checkEnum(requirement, "upgradeId", UPGRADE_IDS, requirementPath, errors);
+    checkNumber(requirement, "level", requirementPath, errors, { min: 1, integer: true });
+  });
+}
+
+// Evolutions must be reachable: each requirement names a plain upgrade whose max level covers the required level.
+function checkEvolutionRequirements(upgrades: unknown, errors: ContentError[]): void {
+  if (errors.length > 0 || !Array.isArray(upgrades)) {
+    return;
+  }
+
+  const list = upgrades as { id: string; maxLevel: number; requires?: { upgradeId: string; level: number }[] }[];
+  for (const upgrade of list) {
+    (upgrade.requires ?? []).forEach((requirement, index) => {
+      const path = `upgrades[${upgrade.id}].requires[${index}]`;
+      const required = list.find((candidate) => candidate.id === requirement.upgradeId);
+      if (!required || required.requires) {
+        errors.push({ path, message: `"${requirement.upgradeId}" is not a plain upgrade in this pack` });
+      } else if (requirement.level > required.maxLevel) {
+        errors.push({ path, message: `level ${requirement.level} is above the max level ${required.maxLevel}` });
+      }
+    });
+  }
+}
+
+function checkHero(entry: JsonObject, path: string, errors: ContentError[]): void {
+  checkKeys(
+    entry,
+    ["id", "name", "role", "description", "moveScale", "fireScale", "damageBonus", "extraShield", "dashScale", "color", "power"],
+    path,
+    errors,
+  );
+  checkString(entry, "name", path, errors);
+  checkString(entry, "role", path, errors);
+  checkString(entry, "description", path, errors);
+  checkString(entry, "color", path, errors);
+  checkNumber(entry, "moveScale", path, errors, { min: 0.1, max: 3 });
+  checkNumber(entry, "fireScale", path, errors, { min: 0.1, max: 3 });
+  checkNumber(entry, "damageBonus", path, errors, { min: 0, integer: true });
+  checkNumber(entry, "extraShield", path, errors, { min: 0, integer: true });
+  checkNumber(entry, "dashScale", path, errors, { min: 0.1, max: 3 });
+
+  const powerPath = `${path}.power`;
+  const power = readObject(entry.power, powerPath, errors);
+  if (!power) {
+    return;
+  }
+
+  const behaviors = Object.keys(POWER_FIELDS) as HeroPowerBehaviorId[];
+  checkEnum(power, "behavior", behaviors, powerPath, errors);
+  checkString(power, "message", powerPath, errors);
+  const fields = POWER_FIELDS[power.behavior as HeroPowerBehaviorId];
+  if (!fields) {
+    return;
+  }
+
+  checkKeys(power, ["behavior", "message", ...fields], powerPath, errors);
+  for (const field of fields) {
+    checkNumber(power, field, powerPath, errors, { min: 0, integer: INTEGER_POWER_FIELDS.includes(field) });
+  }
+}
+
+function checkWeapon(entry: JsonObject, path: string, errors: ContentError[]): void {
+  checkKeys(
+    entry,
+    ["id", "name", "description", "unlockCredits", "unlockCrystals", "secondaryInterval", "fire", "mastery"],
+    path,
+    errors,
+  );
+  checkString(entry, "name", path, errors);
+  checkString(entry, "description", path, errors);
+  checkNumber(entry, "unlockCredits", path, errors, { min: 0, integer: true });
+  checkNumber(entry, "unlockCrystals", path, errors, { min: 0, integer: true });
+  checkNumber(entry, "secondaryInterval", path, errors, { min: 0.2, max: 5 });
+
+  const firePath = `${path}.fire`;
+  const fire = readObject(entry.fire, firePath, errors);
+  if (!fire) {
+    return;
+  }
+  const behaviors = Object.keys(WEAPON_FIELDS) as WeaponBehaviorId[];
+  checkEnum(fire, "behavior", behaviors, firePath, errors);
+  const fields = WEAPON_FIELDS[fire.behavior as WeaponBehaviorId] ?? [];
+  checkKeys(
+    fire,
+    [
+      "behavior",
+      "minShots",
+      "extraShots",
+      "spreadStep",
+      "speedScale",
+      "ttlScale",
+      "damageScale",
+      "bonusDamage",
+      "radius",
+      "pierce",
+      "shieldBreak",
+      ...fields,
+    ],
+    firePath,
+    errors,
+  );
+  if (fire.shieldBreak !== undefined && typeof fire.shieldBreak !== "boolean") {
+    errors.push({
+      path: `${firePath}.shieldBreak`,
+      message: `expected true or false, got ${describe(fire.shieldBreak)}`,
+    });
+  }
+  checkNumber(fire, "reach", firePath, errors, { min: 10, max: 600, optional: !fields.includes("reach") });
+  checkNumber(fire, "jumps", firePath, errors, { min: 0, max: 12, integer: true, optional: !fields.includes("jumps") });
+  checkNumber(fire, "minShots", firePath, errors, { min: 1, max: 12, integer: true });
+  checkNumber(fire, "extraShots", firePath, errors, { min: 0, max: 12, integer: true });
+  checkNumber(fire, "spreadStep", firePath, errors, { min: 0, max: Math.PI });
+  checkNumber(fire, "speedScale", firePath, errors, { min: 0.1, max: 4 });
+  checkNumber(fire, "ttlScale", firePath, errors, { min: 0.1, max: 4 });
+  checkNumber(fire, "damageScale", firePath, errors, { min: 0.1, max: 10 });
+  checkNumber(fire, "bonusDamage", firePath, errors, { min: 0, max: 20, integer: true, optional: true });
+  checkNumber(fire, "radius", firePath, errors, { min: 1, max: 20 });
+  checkNumber(fire, "pierce", firePath, errors, { min: 0, max: 20, integer: true });
+  checkMasteryPerks(entry.mastery, fields, `${path}.mastery`, errors);
+}
+
+// Perk levels must climb, and fire bonuses may only touch fields the weapon's behavior uses.
+function checkMasteryPerks(value: unknown, behaviorFields: string[], path: string, errors: ContentError[]): void {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: `expected an array, got ${describe(value)}` });
+    return;
+  }
+
+  let previousLevel = 0;
+  value.forEach((candidate, index) => {
+    const perkPath = `${path}[${index}]`;
+    const perk = readObject(candidate, perkPath, errors);
+    if (!perk) {
+      return;
+    }
+    checkKeys(perk, ["level", "title", "fire", "color"], perkPath, errors);
+    checkNumber(perk, "level", perkPath, errors, { min: 1, max: MAX_MASTERY_LEVEL, integer: true });
+    checkString(perk, "title", perkPath, errors);
+    if (perk.color !== undefined) {
+      checkString(perk, "color", perkPath, errors);
+    }
+    if (typeof perk.level === "number" && perk.level < previousLevel) {
+      errors.push({
+        path: `${perkPath}.level`,
+        message: `must not be below the previous perk's level ${previousLevel}`,
+      });
+    }
+    previousLevel = typeof perk.level === "number" ? perk.level : previousLevel;
+
+    if (perk.fire === undefined) {
+      return;
+    }
+    const firePath = `${perkPath}.fire`;
+    const fire = readObject(perk.fire, firePath, errors);
+    if (!fire) {
+      return;
+    }
+    const stats = MASTERY_FIRE_STATS.filter(
+      (stat) => !WEAPON_ONLY_FIELDS.includes(stat) || behaviorFields.includes(stat),
+    );
+    checkKeys(fire, stats, firePath, errors);
+    for (const stat of stats) {
+      const integer = INTEGER_FIRE_STATS.includes(stat);
+      checkNumber(fire, stat, firePath, errors, { min: 0, max: 100, optional: true, integer });
+    }
+  });
+}
+
+function checkEnemy(entry: JsonObject, path: string, errors: ContentError[]): void {
+  checkKeys(
+    entry,
+    [
+      "id",
+      "movement",
+      "spawn",
+      "radius",
+      "speed",
+      "speedPerSecond",
+      "moveScale",
+      "hue",
+      "hp",
+      "wobbleRate",
+      "drift",
+      "score",
+      "powerGain",
+      "orbXp",
+      "orbRadius",
+      "orbScore",
+      "ranged",
+      "split",
+      "frontShield",
+      "summon",
+      "heal",
+    ],
+    path,
+    errors,
+  );
+  checkEnum(entry, "movement", ENEMY_MOVEMENTS, path, errors);
+  checkSpawnCurve(entry.spawn, `${path}.spawn`, errors);
+  checkRange(entry, "radius", path, errors, 4);
+  checkRange(entry, "speed", path, errors);
+  checkNumber(entry, "speedPerSecond", path, errors, { min: 0 });
+  checkNumber(entry, "moveScale", path, errors, { min: 0.1, max: 3 });
+  checkNumber(entry, "hue", path, errors, { min: 0, max: 360 });
+  checkNumber(entry, "hp", path, errors, { min: 1, integer: true });
+  checkNumber(entry, "wobbleRate", path, errors, { min: 0 });
+  checkRange(entry, "drift", path, errors);
+  checkNumber(entry, "score", path, errors, { min: 0, integer: true });
+  checkNumber(entry, "powerGain", path, errors, { min: 0, max: 100 });
+  checkRange(entry, "orbXp", path, errors, 1);
+  checkNumber(entry, "orbRadius", path, errors, { min: 2 });
+  checkNumber(entry, "orbScore", path, errors, { min: 0, integer: true });
+
+  const timed = TIMED_ABILITIES.filter((key) => entry[key] !== undefined);
+  if (timed.length > 1) {
+    errors.push({ path, message: `only one of ${TIMED_ABILITIES.join(", ")} is allowed, got ${timed.join(", ")}` });
+  }
+
+  if (entry.ranged === undefined && entry.movement === "keep_distance") {
+    errors.push({ path: `${path}.ranged`, message: "required when movement is keep_distance" });
+  }
+  const rangedPath = `${path}.ranged`;
+  const ranged = entry.ranged === undefined ? null : readObject(entry.ranged, rangedPath, errors);
+  if (ranged) {
+    checkKeys(
+      ranged,
+      ["preferredDistance", "fireInterval", "projectileSpeed", "projectileRadius", "projectileTtl"],
+      rangedPath,
+      errors,
+    );
+    checkNumber(ranged, "preferredDistance", rangedPath, errors, { min: 0 });
+    checkRange(ranged, "fireInterval", rangedPath, errors, 0.2);
+    checkNumber(ranged, "projectileSpeed", rangedPath, errors, { min: 1 });
+    checkNumber(ranged, "projectileRadius", rangedPath, errors, { min: 1, max: 20 });
+    checkNumber(ranged, "projectileTtl", rangedPath, errors, { min: 0.1 });
+  }
+
+  const splitPath = `${path}.split`;
+  const split = entry.split === undefined ? null : readObject(entry.split, splitPath, errors);
+  if (split) {
+    checkKeys(split, ["type", "count", "radius"], splitPath, errors);
+    checkEnum(split, "type", ENEMY_TYPES.filter((type) => type !== entry.id), splitPath, errors);
+    checkNumber(split, "count", splitPath, errors, { min: 1, max: 8, integer: true });
+    checkNumber(split, "radius", splitPath, errors, { min: 0 });
+  }
+
+  const shieldPath = `${path}.frontShield`;
+  const frontShield = entry.frontShield === undefined ? null : readObject(entry.frontShield, shieldPath, errors);
+  if (frontShield) {
+    checkKeys(frontShield, ["arcDegrees", "turnRate"], shieldPath, errors);
+    checkNumber(frontShield, "arcDegrees", shieldPath, errors, { min: 1, max: 359 });
+    checkNumber(frontShield, "turnRate", shieldPath, errors, { min: 0.1, max: 20 });
+  }
+
+  const summonPath = `${path}.summon`;
+  const summon = entry.summon === undefined ? null : readObject(entry.summon, summonPath, errors);
+  if (summon) {
+    checkKeys(summon, ["type", "count", "interval", "radius"], summonPath, errors);
+    checkEnum(summon, "type", ENEMY_TYPES.filter((type) => type !== entry.id), summonPath, errors);
+    checkNumber(summon, "count", summonPath, errors, { min: 1, max: 8, integer: true });
+    checkRange(summon, "interval", summonPath, errors, 0.5);
+    checkNumber(summon, "radius", summonPath, errors, { min: 0 });
+  }
+
+  const healPath = `${path}.heal`;
+  const heal = entry.heal === undefined ? null : readObject(entry.heal, healPath, errors);
+  if (heal) {
+    checkKeys(heal, ["amount", "radius", "interval"], healPath, errors);
+    checkNumber(heal, "amount", healPath, errors, { min: 1, integer: true });
+    checkNumber(heal, "radius", healPath, errors, { min: 1 });
+    checkRange(heal, "interval", healPath, errors, 0.5);
+  }
+}
+
+function checkElite(value: unknown, errors: ContentError[]): void {
+  const elite = readObject(value, "elite", errors);
+  if (!elite) {
+    return;
+  }
+
+  checkKeys(
+    elite,
+    ["base", "spawn", "radiusScale", "speedScale", "hue", "hp", "score", "powerGain", "orbXp", "orbRadius", "orbScore"],
+    "elite",
+    errors,
+  );
+  checkEnum(elite, "base", ENEMY_TYPES, "elite", errors);
+  checkSpawnRule(elite.spawn, "elite.spawn", errors);
+  checkNumber(elite, "radiusScale", "elite", errors, { min: 0.5, max: 4 });
+  checkNumber(elite, "speedScale", "elite", errors, { min: 0.1, max: 4 });
+  checkNumber(elite, "hue", "elite", errors, { min: 0, max: 360 });
+  checkNumber(elite, "hp", "elite", errors, { min: 1, integer: true });
+  checkNumber(elite, "score", "elite", errors, { min: 0, integer: true });
+  checkNumber(elite, "powerGain", "elite", errors, { min: 0, max: 100 });
+  checkRange(elite, "orbXp", "elite", errors, 1);
+  checkNumber(elite, "orbRadius", "elite", errors, { min: 2 });
+  checkNumber(elite, "orbScore", "elite", errors, { min: 0, integer: true });
+}
+
+function checkBoss(value: unknown, errors: ContentError[]): void {
+  const boss = readObject(value, "boss", errors);
+  if (!boss) {
+    return;
+  }
+
+  checkKeys(
+    boss,
+    [
+      "name",
+      "radius",
+      "speed",
+      "hue",
+      "hp",
+      "hpPerBoss",
+      "score",
+      "powerGain",
+      "orbXp",
+      "orbRadius",
+      "orbScore",
+      "cacheScore",
+      "charge",
+      "slam",
+      "summon",
+      "stages",
+    ],
+    "boss",
+    errors,
+  );
+  checkString(boss, "name", "boss", errors);
+  checkNumber(boss, "radius", "boss", errors, { min: 12, max: 80 });
+  checkNumber(boss, "speed", "boss", errors, { min: 0 });
+  checkNumber(boss, "hue", "boss", errors, { min: 0, max: 360 });
+  checkNumber(boss, "hp", "boss", errors, { min: 1, integer: true });
+  checkNumber(boss, "hpPerBoss", "boss", errors, { min: 0, integer: true });
+  checkNumber(boss, "score", "boss", errors, { min: 0, integer: true });
+  checkNumber(boss, "powerGain", "boss", errors, { min: 0, max: 100 });
+  checkRange(boss, "orbXp", "boss", errors, 1);
+  checkNumber(boss, "orbRadius", "boss", errors, { min: 2 });
+  checkNumber(boss, "orbScore", "boss", errors, { min: 0, integer: true });
+  checkNumber(boss, "cacheScore", "boss", errors, { min: 0, integer: true });
+
+  const charge = readObject(boss.charge, "boss.charge", errors);
+  if (charge) {
+    checkKeys(charge, ["windupSeconds", "durationSeconds", "speed"], "boss.charge", errors);
+    checkNumber(charge, "windupSeconds", "boss.charge", errors, { min: 0.2 });
+    checkNumber(charge, "durationSeconds", "boss.charge", errors, { min: 0.1 });
+    checkNumber(charge, "speed", "boss.charge", errors, { min: 0 });
+  }
+  const slam = readObject(boss.slam, "boss.slam", errors);
+  if (slam) {
+    checkKeys(slam, ["windupSeconds", "radius"], "boss.slam", errors);
+    checkNumber(slam, "windupSeconds", "boss.slam", errors, { min: 0.2 });
+    checkNumber(slam, "radius", "boss.slam", errors, { min: 0 });
+  }
+  const summon = readObject(boss.summon, "boss.summon", errors);
+  if (summon) {
+    checkKeys(summon, ["windupSeconds", "type", "radius"], "boss.summon", errors);
+    checkNumber(summon, "windupSeconds", "boss.summon", errors, { min: 0.2 });
+    checkEnum(summon, "type", ENEMY_TYPES, "boss.summon", errors);
+    checkNumber(summon, "radius", "boss.summon", errors, { min: 0 });
+  }
+
+  if (!Array.isArray(boss.stages) || boss.stages.length === 0) {
+    errors.push({ path: "boss.stages", message: `expected a non-empty array, got ${describe(boss.stages)}` });
+    return;
+  }
+  let previousRatio = Number.POSITIVE_INFINITY;
+  boss.stages.forEach((candidate, index) => {
+    const path = `boss.stages[${index}]`;
+    const stage = readObject(candidate, path, errors);
+    if (!stage) {
+      return;
+    }
+
+    checkKeys(stage, ["hpRatio", "attacks", "attackCooldown", "windupScale", "summonCount"], path, errors);
+    checkNumber(stage, "hpRatio", path, errors, { min: 0, max: 1 });
+    checkNumber(stage, "attackCooldown", path, errors, { min: 0.3 });
+    checkNumber(stage, "windupScale", path, errors, { min: 0.2, max: 3 });
+    checkNumber(stage, "summonCount", path, errors, { min: 0, max: 12, integer: true });
+    if (index === 0 && stage.hpRatio !== 1) {
+      errors.push({ path: `${path}.hpRatio`, message: "the first stage must start at full health (1)" });
+    }
+    if (typeof stage.hpRatio === "number") {
+      if (stage.hpRatio >= previousRatio) {
+        errors.push({ path: `${path}.hpRatio`, message: "stages must be ordered by decreasing hpRatio" });
+      }
+      previousRatio = stage.hpRatio;
+    }
+
+    if (!Array.isArray(stage.attacks) || stage.attacks.length === 0) {
+      errors.push({ path: `${path}.attacks`, message: `expected a non-empty array, got ${describe(stage.attacks)}` });
+      return;
+    }
+    stage.attacks.forEach((attack, attackIndex) => {
+      if (typeof attack !== "string" || !BOSS_ATTACKS.includes(attack as BossAttackId)) {
+        errors.push({
+          path: `${path}.attacks[${attackIndex}]`,
+          message: `expected one of ${BOSS_ATTACKS.join(", ")}, got ${describe(attack)}`,
+        });
+      }
+    });
+  });
+}
+
+function checkWave(entry: JsonObject, path: string, errors: ContentError[]): void {
+  checkKeys(
+    entry,
+    ["id", "name", "startSeconds", "endSeconds", "spawnInterval", "batchSize", "formation", "mix", "maxAlive"],
+    path,
+    errors,
+  );
+  checkString(entry, "name", path, errors);
+  checkNumber(entry, "startSeconds", path, errors, { min: 0 });
+  checkNumber(entry, "endSeconds", path, errors, { min: 0 });
+  checkNumber(entry, "spawnInterval", path, errors, { min: 0.1 });
+  checkNumber(entry, "batchSize", path, errors, { min: 1, max: 24, integer: true });
+  checkEnum(entry, "formation", WAVE_FORMATIONS, path, errors);
+  checkNumber(entry, "maxAlive", path, errors, { min: 1, integer: true });
+  if (typeof entry.startSeconds === "number" && typeof entry.endSeconds === "number" && entry.endSeconds <= entry.startSeconds) {
+    errors.push({ path: `${path}.endSeconds`, message: `must be after startSeconds ${entry.startSeconds}` });
+  }
+
+  const mixPath = `${path}.mix`;
+  const mix = readObject(entry.mix, mixPath, errors);
+  if (!mix) {
+    return;
+  }
+  checkKeys(mix, ENEMY_TYPES, mixPath, errors);
+  let total = 0;
+  for (const type of Object.keys(mix)) {
+    checkNumber(mix, type, mixPath, errors, { min: 0 });
+    total += typeof mix[type] === "number" ? (mix[type] as number) : 0;
+  }
+  if (total <= 0) {
+    errors.push({ path: mixPath, message: "needs at least one enemy type with a weight above 0" });
+  }
+}
+
+// The director walks waves in order, so they must be sorted and must not overlap.
+function checkWaveOrder(waves: unknown, errors: ContentError[]): void {
+  if (!Array.isArray(waves)) {
+    return;
+  }
+
+  let previous: JsonObject | null = null;
+  for (const wave of waves) {
+    if (!isObject(wave) || typeof wave.startSeconds !== "number") {
+      continue;
+    }
+    if (previous && typeof previous.endSeconds === "number" && wave.startSeconds < previous.endSeconds) {
+      errors.push({
+        path: `waves[${String(wave.id)}].startSeconds`,
+        message: `must not start before waves[${String(previous.id)}] ends at ${previous.endSeconds}`,
+      });
+    }
+    previous = wave;
+  }
+}
+
+function checkMetaUpgrade(entry: JsonObject, path: string, errors: ContentError[]): void {
+  checkKeys(
+    entry,
+    ["id", "title", "description", "maxLevel", "baseCreditCost", "baseCrystalCost", "effects"],
+    path,
+    errors,
+  );
+  checkString(entry, "title", path, errors);
+  checkString(entry, "description", path, errors);
+  // Profiles store at most 7 levels per meta upgrade.
+  checkNumber(entry, "maxLevel", path, errors, { min: 1, max: 7, integer: true });
+  checkNumber(entry, "baseCreditCost", path, errors, { min: 0, integer: true });
+  checkNumber(entry, "baseCrystalCost", path, errors, { min: 0, integer: true });
+
+  if (!Array.isArray(entry.effects)) {
+    errors.push({ path: `${path}.effects`, message: `expected an array, got ${describe(entry.effects)}` });
+    return;
+  }
+  entry.effects.forEach((candidate, index) => {
+    const effectPath = `${path}.effects[${index}]`;
+    const effect = readObject(candidate, effectPath, errors);
+    if (!effect) {
+      return;
+    }
+    checkKeys(effect, ["stat", "perLevel", "max"], effectPath, errors);
+    checkEnum(effect, "stat", META_UPGRADE_STATS, effectPath, errors);
+    checkNumber(effect, "perLevel", effectPath, errors, { min: 0 });
+    checkNumber(effect, "max", effectPath, errors, { min: 0, optional: true });
+  });
+}
+
+function checkDailyMission(entry: JsonObject, path: string, errors: ContentError[]): void {
+  checkKeys(
+    entry,
+    ["id", "label", "description", "metric", "goal", "rewardCredits", "rewardCrystals"],
+    path,
+    errors,
+  );
+  checkString(entry, "label", path, errors);
+  checkString(entry, "description", path, errors);
+  checkEnum(entry, "metric", MISSION_METRICS, path, errors);
+  checkNumber(entry, "goal", path, errors, { min: 1, integer: true });
+  checkNumber(entry, "rewardCredits", path, errors, { min: 0, integer: true });
+  checkNumber(entry, "rewardCrystals", path, errors, { min: 0, integer: true });
+}
+
+function checkHeader(pack: JsonObject, errors: ContentError[]): void {
+  if (pack.format !== CONTENT_FORMAT) {
+    errors.push({ path: "format", message: `expected "${CONTENT_FORMAT}", got ${describe(pack.format)}` });
+  }
+  if (pack.version !== CONTENT_VERSION) {
+    errors.push({ path: "version", message: `unsupported version ${describe(pack.version)} (expected ${CONTENT_VERSION})` });
+  }
+  checkString(pack, "id", "", errors);
+}
+
+export function validateContentPack(value: unknown): ContentValidation {
+  const errors: ContentError[] = [];
+  const pack = readObject(value, "", errors);
+  if (!pack) {
+    return { ok: false, errors };
+  }
+
+  checkHeader(pack, errors);
+  checkKeys(pack, ["format", "version", "id", "elite", "boss", ...COLLECTION_KEYS], "", errors);
+  checkList(pack, "upgrades", UPGRADE_IDS, errors, (entry, path) => checkUpgrade(entry, path, errors));
+  checkList(pack, "heroes", HERO_IDS, errors, (entry, path) => checkHero(entry, path, errors));
+  checkList(pack, "weapons", WEAPON_IDS, errors, (entry, path) => checkWeapon(entry, path, errors));
+  checkList(pack, "enemies", ENEMY_TYPES, errors, (entry, path) => checkEnemy(entry, path, errors));
+  checkElite(pack.elite, errors);
+  checkBoss(pack.boss, errors);
+  checkList(pack, "waves", null, errors, (entry, path) => checkWave(entry, path, errors));
+  checkWaveOrder(pack.waves, errors);
+  checkList(pack, "metaUpgrades", META_UPGRADE_IDS, errors, (entry, path) => checkMetaUpgrade(entry, path, errors));
+  checkList(pack, "dailyMissions", null, errors, (entry, path) => checkDailyMission(entry, path, errors));
+
+  checkSpawnTotals(pack.enemies, errors);
+  checkEvolutionRequirements(pack.upgrades, errors);
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, pack: pack as unknown as ContentPack };
+}
+
+// Nested objects are merged field by field unless the overlay switches to a different behavior.
+function mergeEntry(base: JsonObject, overlay: JsonObject): JsonObject {
+  const merged: JsonObject = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    const current = merged[key];
+    const sameBehavior = isObject(value) && isObject(current) && (value.behavior ?? current.behavior) === current.behavior;
+    merged[key] = isObject(value) && isObject(current) && sameBehavior ? mergeEntry(current, value) : value;
+  }
+  return merged;
+}
+
+function mergeCollection(base: unknown, overlay: unknown): unknown {
+  if (!Array.isArray(base) || !Array.isArray(overlay)) {
+    return overlay ?? base;
+  }
+
+  const merged = [...base] as JsonObject[];
+  for (const entry of overlay) {
+    const index = isObject(entry) ? merged.findIndex((candidate) => candidate.id === entry.id) : -1;
+    if (index >= 0 && isObject(entry)) {
+      merged[index] = mergeEntry(merged[index], entry);
+    } else {
+      merged.push(entry);
+    }
+  }
+  return merged;
+}
+
+export function applyContentPack(base: ContentPack, overlay: unknown): ContentValidation {
+  const errors: ContentError[] = [];
+  const pack = readObject(overlay, "", errors);
+  if (!pack) {
+    return { ok: false, errors };
+  }
+
+  checkHeader(pack, errors);
+  checkKeys(pack, ["format", "version", "id", "elite", "boss", ...COLLECTION_KEYS], "", errors);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const merged: JsonObject = { ...(base as unknown as JsonObject), id: pack.id };
+  for (const key of COLLECTION_KEYS) {
+    merged[key] = mergeCollection(merged[key], pack[key]);
+  }
+  for (const key of ["elite", "boss"]) {
+    const overlayEntry = pack[key];
+    if (isObject(overlayEntry)) {
+      merged[key] = mergeEntry(merged[key] as JsonObject, overlayEntry);
+    }
+  }
+
+  return validateContentPack(merged);
+}
+
+export function formatContentErrors(errors: ContentError[]): string {
+  return errors.map((error) => `  ${error.path || "(root)"}: ${error.message}`).join("\n");
+}
+
+export function loadContent(base: unknown, packs: unknown[]): ContentPack {
+  const validated = validateContentPack(base);
+  if (!validated.ok) {
+    throw new Error(`Invalid base content pack:\n${formatContentErrors(validated.errors)}`);
+  }
+
+  // A broken seasonal pack must not take the game down with it: it is reported and skipped.
+  let content = validated.pack;
+  for (const pack of packs) {
+    const applied = applyContentPack(content, pack);
+    if (!applied.ok) {
+      const packId = isObject(pack) && typeof pack.id === "string" ? pack.id : "unknown";
+      console.error(`Skipped invalid content pack "${packId}":\n${formatContentErrors(applied.errors)}`);
+      continue;
+    }
+    content = applied.pack;
+  }
+
+  return content;
+}
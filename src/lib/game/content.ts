@@ -0,0 +1,418 @@
+import { loadContent } from "@/lib/game/content-schema";
+import basePack from "@/lib/game/packs/base.json";
+import seasonalManifest from "@/lib/game/packs/seasonal.json";
+import type { DailyMissionProgress, MetaUpgradeLevels, WeaponId } from "@/lib/profile";
+
+export type UpgradeId =
+  | "rapid_fire"
+  | "power_shot"
+  | "speed_boost"
+  | "multi_shot"
+  | "dash_core"
+  | "magnet"
+  | "ricochet_rounds"
+  | "homing_rounds"
+  | "explosive_rounds"
+  | "split_rounds"
+  | "bullet_hell"
+  | "phase_runner"
+  | "singularity";
+export type UpgradeRarity = "common" | "rare" | "epic";
+export type HeroId = "viper" | "titan" | "nova" | "arc";
+export type SpawnableEnemyType =
+  | "runner"
+  | "zigzag"
+  | "brute"
+  | "spitter"
+  | "splitter"
+  | "shielded"
+  | "summoner"
+  | "healer";
+export type EnemyType = SpawnableEnemyType | "boss";
+export type BossAttackId = "charge" | "slam" | "summon";
+
+export type UpgradeStat =
+  | "fireInterval"
+  | "shotDamage"
+  | "moveSpeed"
+  | "multiShot"
+  | "dashCooldown"
+  | "pickupRadius"
+  | "ricochet"
+  | "homing"
+  | "blastRadius"
+  | "splitShots";
+export type MetaUpgradeStat =
+  | "maxShield"
+  | "moveSpeed"
+  | "dashCooldownReduction"
+  | "powerGain"
+  | "rerollCharges"
+  | "banishCharges";
+export type WeaponBehaviorId =
+  | "spread_volley"
+  | "single_shot"
+  | "boomerang"
+  | "orbit_blades"
+  | "chain_lightning"
+  | "flame_cone";
+export type HeroPowerBehaviorId = "blade_storm" | "fortress_guard" | "solar_ring" | "arc_storm";
+export type EnemyMovementId = "chase" | "zigzag" | "keep_distance";
+export type WaveFormation = "edge" | "ring" | "side_stampede" | "swarm_burst";
+export type NumberRange = [number, number];
+
+export interface UpgradeEffect {
+  stat: UpgradeStat;
+  mode: "add" | "multiply";
+  amount: number;
+  min?: number;
+  max?: number;
+}
+
+// An evolution is only offered once every required upgrade has reached its level.
+export interface UpgradeRequirement {
+  upgradeId: UpgradeId;
+  level: number;
+}
+
+export interface UpgradeDefinition {
+  id: UpgradeId;
+  title: string;
+  description: string;
+  rarity: UpgradeRarity;
+  maxLevel: number;
+  // Applied once per level taken.
+  effects: UpgradeEffect[];
+  requires?: UpgradeRequirement[];
+}
+
+export type HeroPowerDefinition =
+  | {
+      behavior: "blade_storm";
+      message: string;
+      radius: number;
+      damage: number;
+      eliteDamage: number;
+      frenzySeconds: number;
+      dashSeconds: number;
+      invulnerableSeconds: number;
+    }
+  | { behavior: "fortress_guard"; message: string; invulnerableSeconds: number; stasisSeconds: number }
+  | {
+      behavior: "solar_ring";
+      message: string;
+      shots: number;
+      speedScale: number;
+      ttl: number;
+      bonusDamage: number;
+      radius: number;
+      frenzySeconds: number;
+    }
+  | { behavior: "arc_storm"; message: string; targets: number; damage: number; eliteDamage: number; stasisSeconds: number };
+
+export interface HeroDefinition {
+  id: HeroId;
+  name: string;
+  role: string;
+  description: string;
+  moveScale: number;
+  fireScale: number;
+  damageBonus: number;
+  extraShield: number;
+  dashScale: number;
+  color: string;
+  power: HeroPowerDefinition;
+}
+
+export interface WeaponFireDefinition {
+  behavior: WeaponBehaviorId;
+  minShots: number;
+  extraShots: number;
+  spreadStep: number;
+  speedScale: number;
+  ttlScale: number;
+  damageScale: number;
+  // Flat damage added to each shot after damageScale is applied and rounded.
+  bonusDamage?: number;
+  radius: number;
+  pierce: number;
+  // Boomerang turn-back distance, blade orbit radius, or chain lightning jump range.
+  reach?: number;
+  // Extra enemies a chain lightning bolt jumps to.
+  jumps?: number;
+  // Shots pass through front shields.
+  shieldBreak?: boolean;
+}
+
+export type MasteryFireStat =
+  | "minShots"
+  | "extraShots"
+  | "damageScale"
+  | "bonusDamage"
+  | "radius"
+  | "pierce"
+  | "reach"
+  | "jumps";
+
+// Reached by playing the weapon and kept for good. Fire bonuses add to the weapon's own numbers.
+export interface WeaponMasteryPerk {
+  level: number;
+  title: string;
+  fire?: Partial<Record<MasteryFireStat, number>>;
+  // Projectile tint from this mastery level on.
+  color?: string;
+}
+
+export interface WeaponDefinition {
+  id: WeaponId;
+  name: string;
+  description: string;
+  unlockCredits: number;
+  unlockCrystals: number;
+  // Seconds between volleys in the secondary slot, where hero fire rate and fire-rate upgrades do not apply.
+  secondaryInterval: number;
+  fire: WeaponFireDefinition;
+  mastery: WeaponMasteryPerk[];
+}
+
+export interface SpawnRule {
+  afterSeconds: number;
+  chance: number;
+}
+
+// [elapsedSeconds, weight] points, interpolated linearly. Each spawn picks an enemy in proportion to its weight.
+export interface SpawnCurve {
+  weights: NumberRange[];
+}
+
+// Ranged enemies fire at the player; keep_distance movement holds them near preferredDistance.
+export interface EnemyRangedDefinition {
+  preferredDistance: number;
+  fireInterval: NumberRange;
+  projectileSpeed: number;
+  projectileRadius: number;
+  projectileTtl: number;
+}
+
+export interface EnemySplitDefinition {
+  type: SpawnableEnemyType;
+  count: number;
+  radius: number;
+}
+
+// Hits landing inside the front arc are blocked unless the shot pierces.
+export interface EnemyFrontShieldDefinition {
+  arcDegrees: number;
+  // Radians per second the shield turns toward the player, so a fast enough flank gets behind it.
+  turnRate: number;
+}
+
+export interface EnemySummonDefinition {
+  type: SpawnableEnemyType;
+  count: number;
+  interval: NumberRange;
+  radius: number;
+}
+
+export interface EnemyHealDefinition {
+  amount: number;
+  radius: number;
+  interval: NumberRange;
+}
+
+export interface EnemyDefinition {
+  id: SpawnableEnemyType;
+  movement: EnemyMovementId;
+  spawn: SpawnCurve;
+  radius: NumberRange;
+  speed: NumberRange;
+  speedPerSecond: number;
+  moveScale: number;
+  hue: number;
+  hp: number;
+  wobbleRate: number;
+  drift: NumberRange;
+  score: number;
+  powerGain: number;
+  orbXp: NumberRange;
+  orbRadius: number;
+  orbScore: number;
+  ranged?: EnemyRangedDefinition;
+  split?: EnemySplitDefinition;
+  frontShield?: EnemyFrontShieldDefinition;
+  summon?: EnemySummonDefinition;
+  heal?: EnemyHealDefinition;
+}
+
+export interface EliteDefinition {
+  base: SpawnableEnemyType;
+  spawn: SpawnRule;
+  radiusScale: number;
+  speedScale: number;
+  hue: number;
+  hp: number;
+  score: number;
+  powerGain: number;
+  orbXp: NumberRange;
+  orbRadius: number;
+  orbScore: number;
+}
+
+// A boss switches to the last stage whose hpRatio is at or above its remaining health.
+export interface BossStageDefinition {
+  hpRatio: number;
+  attacks: BossAttackId[];
+  attackCooldown: number;
+  windupScale: number;
+  summonCount: number;
+}
+
+export interface BossDefinition {
+  name: string;
+  radius: number;
+  speed: number;
+  hue: number;
+  hp: number;
+  hpPerBoss: number;
+  score: number;
+  powerGain: number;
+  orbXp: NumberRange;
+  orbRadius: number;
+  orbScore: number;
+  cacheScore: number;
+  charge: { windupSeconds: number; durationSeconds: number; speed: number };
+  slam: { windupSeconds: number; radius: number };
+  summon: { windupSeconds: number; type: SpawnableEnemyType; radius: number };
+  stages: BossStageDefinition[];
+}
+
+// A scripted wave spawns batchSize enemies every spawnInterval seconds between its start and end. Gaps between
+// waves are breathers with no regular spawns. After the last wave the procedural spawner takes over.
+export interface WaveDefinition {
+  id: string;
+  name: string;
+  startSeconds: number;
+  endSeconds: number;
+  spawnInterval: number;
+  batchSize: number;
+  formation: WaveFormation;
+  mix: Partial<Record<SpawnableEnemyType, number>>;
+  maxAlive: number;
+}
+
+export interface MetaUpgradeEffect {
+  stat: MetaUpgradeStat;
+  perLevel: number;
+  max?: number;
+}
+
+export interface MetaUpgradeDefinition {
+  id: keyof MetaUpgradeLevels;
+  title: string;
+  description: string;
+  maxLevel: number;
+  baseCreditCost: number;
+  baseCrystalCost: number;
+  effects: MetaUpgradeEffect[];
+}
+
+export interface DailyMissionDefinition {
+  id: string;
+  label: string;
+  description: string;
+  metric: keyof DailyMissionProgress;
+  goal: number;
+  rewardCredits: number;
+  rewardCrystals: number;
+}
+
+export interface ContentPack {
+  format: string;
+  version: number;
+  id: string;
+  upgrades: UpgradeDefinition[];
+  heroes: HeroDefinition[];
+  weapons: WeaponDefinition[];
+  enemies: EnemyDefinition[];
+  elite: EliteDefinition;
+  boss: BossDefinition;
+  waves: WaveDefinition[];
+  metaUpgrades: MetaUpgradeDefinition[];
+  dailyMissions: DailyMissionDefinition[];
+}
+
+// packs/seasonal.json inlines each seasonal pack object in its "packs" list; they are layered over the base pack in
+// order. Entries override the base entry with the same id, and the last valid pack's id names the result. Invalid
+// packs are logged and skipped.
+export const CONTENT: ContentPack = loadContent(basePack, seasonalManifest.packs);
+
+export const UPGRADE_POOL = CONTENT.upgrades;
+export const HERO_POOL = CONTENT.heroes;
+export const WEAPON_POOL = CONTENT.weapons;
+export const ENEMY_POOL = CONTENT.enemies;
+export const ELITE_ENEMY = CONTENT.elite;
+export const BOSS_ENEMY = CONTENT.boss;
+export const WAVE_SCRIPT = CONTENT.waves;
+export const META_UPGRADES = CONTENT.metaUpgrades;
+export const DAILY_MISSIONS = CONTENT.dailyMissions;
+
+export function getUpgrade(upgradeId: UpgradeId): UpgradeDefinition {
+  return UPGRADE_POOL.find((upgrade) => upgrade.id === upgradeId) ?? UPGRADE_POOL[0];
+}
+
+export function isEvolution(upgrade: UpgradeDefinition): boolean {
+  return (upgrade.requires?.length ?? 0) > 0;
+}
+
+export function getHero(heroId: HeroId): HeroDefinition {
+  return HERO_POOL.find((hero) => hero.id === heroId) ?? HERO_POOL[0];
+}
+
+export function getWeapon(weaponId: WeaponId): WeaponDefinition {
+  return WEAPON_POOL.find((weapon) => weapon.id === weaponId) ?? WEAPON_POOL[0];
+}
+
+// The weapon's fire numbers with every perk up to the mastery level added on.
+export function getMasteredFire(weaponId: WeaponId, masteryLevel: number): WeaponFireDefinition {
+  const weapon = getWeapon(weaponId);
+  let fire = weapon.fire;
+  for (const perk of weapon.mastery) {
+    if (perk.level > masteryLevel || !perk.fire) {
+      continue;
+    }
+    fire = { ...fire };
+    for (const [stat, bonus] of Object.entries(perk.fire) as [MasteryFireStat, number][]) {
+      fire[stat] = (fire[stat] ?? 0) + bonus;
+    }
+  }
+  return fire;
+}
+
+// The tint of the highest unlocked color perk, or null for the default projectile color.
+export function getMasteryColor(weaponId: WeaponId, masteryLevel: number): string | null {
+  let color: string | null = null;
+  for (const perk of getWeapon(weaponId).mastery) {
+    if (perk.level <= masteryLevel && perk.color) {
+      color = perk.color;
+    }
+  }
+  return color;
+}
+
+export function getEnemyDefinition(type: SpawnableEnemyType): EnemyDefinition {
+  return ENEMY_POOL.find((enemy) => enemy.id === type) ?? ENEMY_POOL[ENEMY_POOL.length - 1];
+}
+
+export function getMetaUpgradeBonus(metaUpgrades: MetaUpgradeLevels, stat: MetaUpgradeStat): number {
+  let total = 0;
+  for (const definition of META_UPGRADES) {
+    const level = metaUpgrades[definition.id] ?? 0;
+    for (const effect of definition.effects) {
+      if (effect.stat === stat) {
+        total += Math.min(effect.max ?? Number.POSITIVE_INFINITY, level * effect.perLevel);
+      }
+    }
+  }
+
+  return total;
+}
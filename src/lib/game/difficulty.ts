@@ -0,0 +1,78 @@
+import { clamp } from "@/lib/game/math";
+
+export interface DifficultyState {
+  // Scales spawn rate and elite frequency up, and pickup drops down, as it rises above 1.
+  intensity: number;
+  shieldLossesPerMinute: number;
+  averageEnemyDistance: number;
+  killRate: number;
+  spawnRate: number;
+  nextSampleAt: number;
+  lastKills: number;
+  lastSpawned: number;
+  lastShieldLosses: number;
+}
+
+export interface DifficultySample {
+  elapsed: number;
+  kills: number;
+  spawned: number;
+  shieldLosses: number;
+  averageEnemyDistance: number;
+}
+
+export const MIN_INTENSITY = 0.75;
+export const MAX_INTENSITY = 1.35;
+const SAMPLE_SECONDS = 1;
+const WARMUP_SECONDS = 15;
+// Rolling averages cover roughly the last 20 seconds.
+const SMOOTHING = SAMPLE_SECONDS / 20;
+// Backing off is quicker than ramping up, so a struggling player gets relief before the next wave piles on.
+const RISE_STEP = 0.008;
+const FALL_STEP = 0.03;
+const COMFORT_DISTANCE = 200;
+
+export function createDifficultyState(): DifficultyState {
+  return {
+    intensity: 1,
+    shieldLossesPerMinute: 0,
+    averageEnemyDistance: COMFORT_DISTANCE,
+    killRate: 0,
+    spawnRate: 0,
+    nextSampleAt: SAMPLE_SECONDS,
+    lastKills: 0,
+    lastSpawned: 0,
+    lastShieldLosses: 0,
+  };
+}
+
+export function isDifficultySampleDue(state: DifficultyState, elapsed: number): boolean {
+  return elapsed >= state.nextSampleAt;
+}
+
+// Folds one second of play into the rolling metrics, then nudges intensity toward how comfortable the player looks.
+export function recordDifficultySample(state: DifficultyState, sample: DifficultySample): void {
+  const kills = sample.kills - state.lastKills;
+  const spawned = sample.spawned - state.lastSpawned;
+  const shieldLosses = sample.shieldLosses - state.lastShieldLosses;
+  state.lastKills = sample.kills;
+  state.lastSpawned = sample.spawned;
+  state.lastShieldLosses = sample.shieldLosses;
+  state.nextSampleAt = sample.elapsed + SAMPLE_SECONDS;
+
+  state.killRate += (kills / SAMPLE_SECONDS - state.killRate) * SMOOTHING;
+  state.spawnRate += (spawned / SAMPLE_SECONDS - state.spawnRate) * SMOOTHING;
+  state.shieldLossesPerMinute += ((shieldLosses * 60) / SAMPLE_SECONDS - state.shieldLossesPerMinute) * SMOOTHING;
+  state.averageEnemyDistance += (sample.averageEnemyDistance - state.averageEnemyDistance) * SMOOTHING;
+
+  if (sample.elapsed < WARMUP_SECONDS) {
+    return;
+  }
+
+  const keepingUp = state.spawnRate > 0 ? clamp(state.killRate / state.spawnRate - 1, -1, 1) : 0;
+  const breathingRoom = clamp((state.averageEnemyDistance - COMFORT_DISTANCE) / 150, -1, 1);
+  const takingHits = clamp(state.shieldLossesPerMinute / 2, 0, 2);
+  const comfort = clamp(keepingUp + breathingRoom - takingHits, -1, 1);
+  const step = comfort * (comfort > 0 ? RISE_STEP : FALL_STEP);
+  state.intensity = clamp(state.intensity + step, MIN_INTENSITY, MAX_INTENSITY);
+}
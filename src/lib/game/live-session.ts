@@ -0,0 +1,268 @@
+import {
+  createRecorder,
+  finishRecording,
+  recordAction,
+  recordInput,
+  type ReplayLoadout,
+  type ReplayRecorder,
+  type RunReplay,
+} from "@/lib/game/replay";
+import {
+  applyRoundAction,
+  type Enemy,
+  type EntityPoolStats,
+  getEntityPoolStats,
+  type HostileProjectile,
+  type LevelUpAction,
+  type Orb,
+  type Pickup,
+  type Projectile,
+  releaseRound,
+  resetRound,
+  type RoundAction,
+  type RoundEvent,
+  type RoundInput,
+  type RoundState,
+  SIMULATION_STEP_SECONDS,
+  stepRound,
+} from "@/lib/game/simulation";
+
+// Snapshots carry only what the canvas and HUD read, so posting them across threads stays cheap.
+export type EnemySnapshot = Omit<Enemy, "baseSpeed" | "wobble" | "drift">;
+export type ProjectileSnapshot = Omit<
+  Projectile,
+  | "vx"
+  | "vy"
+  | "damage"
+  | "pierce"
+  | "range"
+  | "spin"
+  | "lastHitId"
+  | "rehitAt"
+  | "bounces"
+  | "homing"
+  | "blastRadius"
+  | "splits"
+  | "shieldBreak"
+>;
+export type HostileProjectileSnapshot = Omit<HostileProjectile, "vx" | "vy">;
+export type OrbSnapshot = Omit<Orb, "xp" | "score">;
+export type PickupSnapshot = Pickup;
+
+export type RoundSnapshot = Omit<
+  RoundState,
+  "enemies" | "projectiles" | "hostileProjectiles" | "orbs" | "pickups" | "lastEntityId"
+> & {
+  enemies: EnemySnapshot[];
+  projectiles: ProjectileSnapshot[];
+  hostileProjectiles: HostileProjectileSnapshot[];
+  orbs: OrbSnapshot[];
+  pickups: PickupSnapshot[];
+};
+
+export type SimulationRequest =
+  | { type: "start"; loadout: ReplayLoadout }
+  | { type: "frame"; frameSeconds: number; input: RoundInput; actions: RoundAction[] }
+  | { type: "level_up"; action: LevelUpAction; input: RoundInput }
+  | { type: "stop" };
+
+export interface SimulationUpdate {
+  snapshot: RoundSnapshot;
+  blend: number;
+  events: RoundEvent[];
+  pools: EntityPoolStats;
+  replay: RunReplay | null;
+}
+
+export interface LiveSession {
+  round: RoundState;
+  recorder: ReplayRecorder;
+  pendingActions: RoundAction[];
+  accumulator: number;
+  finished: boolean;
+}
+
+export interface SimulationRuntime {
+  session: LiveSession | null;
+}
+
+export function createRoundSnapshot(round: RoundState): RoundSnapshot {
+  return {
+    ...round,
+    build: { ...round.build },
+    difficulty: { ...round.difficulty },
+    upgrades: [...round.upgrades],
+    upgradeLevels: { ...round.upgradeLevels },
+    upgradeChoices: [...round.upgradeChoices],
+    banishedUpgrades: [...round.banishedUpgrades],
+    rng: { ...round.rng },
+    enemies: round.enemies.map((enemy) => ({
+      id: enemy.id,
+      x: enemy.x,
+      y: enemy.y,
+      prevX: enemy.prevX,
+      prevY: enemy.prevY,
+      radius: enemy.radius,
+      hue: enemy.hue,
+      hp: enemy.hp,
+      maxHp: enemy.maxHp,
+      type: enemy.type,
+      elite: enemy.elite,
+      phase: enemy.phase,
+      phaseEndsAt: enemy.phaseEndsAt,
+      aimX: enemy.aimX,
+      aimY: enemy.aimY,
+      abilityReadyAt: enemy.abilityReadyAt,
+    })),
+    projectiles: round.projectiles.map((projectile) => ({
+      id: projectile.id,
+      x: projectile.x,
+      y: projectile.y,
+      prevX: projectile.prevX,
+      prevY: projectile.prevY,
+      ttl: projectile.ttl,
+      radius: projectile.radius,
+      behavior: projectile.behavior,
+      age: projectile.age,
+      angle: projectile.angle,
+      originX: projectile.originX,
+      originY: projectile.originY,
+      secondary: projectile.secondary,
+    })),
+    hostileProjectiles: round.hostileProjectiles.map((projectile) => ({
+      id: projectile.id,
+      x: projectile.x,
+      y: projectile.y,
+      prevX: projectile.prevX,
+      prevY: projectile.prevY,
+      ttl: projectile.ttl,
+      radius: projectile.radius,
+    })),
+    orbs: round.orbs.map((orb) => ({
+      id: orb.id,
+      x: orb.x,
+      y: orb.y,
+      prevX: orb.prevX,
+      prevY: orb.prevY,
+      radius: orb.radius,
+      ttl: orb.ttl,
+    })),
+    pickups: round.pickups.map((pickup) => ({ ...pickup })),
+  };
+}
+
+export function createLiveSession(loadout: ReplayLoadout, previous: LiveSession | null = null): LiveSession {
+  return {
+    round: resetRound(
+      loadout.heroId,
+      loadout.weaponId,
+      loadout.metaUpgrades,
+      loadout.seed,
+      loadout.modeId,
+      loadout.arenaId,
+      loadout.aimMode,
+      loadout.masteryLevel,
+      loadout.secondaryWeaponId,
+      loadout.secondaryMasteryLevel,
+      previous?.round ?? null,
+    ),
+    recorder: createRecorder(loadout),
+    pendingActions: [],
+    accumulator: 0,
+    finished: false,
+  };
+}
+
+// Runs as many fixed ticks as the frame time allows. Stops early on a level-up or defeat so the
+// player never loses ticks while the upgrade picker or game over screen is opening.
+export function advanceLiveSession(
+  session: LiveSession,
+  frameSeconds: number,
+  input: RoundInput,
+  actions: RoundAction[],
+): RoundEvent[] {
+  const { round, recorder } = session;
+  const events: RoundEvent[] = [];
+  if (session.finished || round.upgradeChoices.length > 0) {
+    session.accumulator = 0;
+    return events;
+  }
+
+  session.pendingActions.push(...actions);
+  session.accumulator += frameSeconds;
+  while (session.accumulator >= SIMULATION_STEP_SECONDS) {
+    session.accumulator -= SIMULATION_STEP_SECONDS;
+    recordInput(recorder, round.tick, input);
+    for (const action of session.pendingActions.splice(0)) {
+      recordAction(recorder, round.tick, action);
+      events.push(...applyRoundAction(round, input, action));
+    }
+
+    const tickEvents = stepRound(round, input, SIMULATION_STEP_SECONDS);
+    events.push(...tickEvents);
+    if (tickEvents.some((event) => event.type === "defeated" || event.type === "victory")) {
+      session.finished = true;
+    }
+
+    if (session.finished || round.upgradeChoices.length > 0) {
+      session.accumulator = 0;
+      break;
+    }
+  }
+
+  return events;
+}
+
+export function applyLiveLevelUpAction(session: LiveSession, input: RoundInput, action: LevelUpAction): RoundEvent[] {
+  const { upgradeChoices } = session.round;
+  if (session.finished || upgradeChoices.length === 0) {
+    return [];
+  }
+  if ((action.type === "upgrade" || action.type === "banish") && !upgradeChoices.includes(action.upgradeId)) {
+    return [];
+  }
+
+  recordAction(session.recorder, session.round.tick, action);
+  return applyRoundAction(session.round, input, action);
+}
+
+export function createSimulationRuntime(): SimulationRuntime {
+  return { session: null };
+}
+
+// Shared by the worker and the in-thread fallback so both paths simulate identically.
+export function handleSimulationRequest(
+  runtime: SimulationRuntime,
+  request: SimulationRequest,
+): SimulationUpdate | null {
+  if (request.type === "start") {
+    runtime.session = createLiveSession(request.loadout, runtime.session);
+    return null;
+  }
+
+  if (request.type === "stop") {
+    if (runtime.session) {
+      releaseRound(runtime.session.round);
+    }
+    runtime.session = null;
+    return null;
+  }
+
+  const session = runtime.session;
+  if (!session || session.finished) {
+    return null;
+  }
+
+  const events =
+    request.type === "frame"
+      ? advanceLiveSession(session, request.frameSeconds, request.input, request.actions)
+      : applyLiveLevelUpAction(session, request.input, request.action);
+
+  return {
+    snapshot: createRoundSnapshot(session.round),
+    blend: Math.min(1, session.accumulator / SIMULATION_STEP_SECONDS),
+    events,
+    pools: getEntityPoolStats(session.round),
+    replay: session.finished ? finishRecording(session.recorder, session.round) : null,
+  };
+}
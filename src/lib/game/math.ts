@@ -0,0 +1,48 @@
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function lerp(from: number, to: number, alpha: number): number {
+  return from + (to - from) * alpha;
+}
+
+export function randomInRange(min: number, max: number): number {
+  return min + Math.random() * (max - min);
+}
+
+export function normalize(dx: number, dy: number): { x: number; y: number } {
+  const magnitude = Math.hypot(dx, dy);
+  if (magnitude <= 0.0001) {
+    return { x: 0, y: 0 };
+  }
+
+  return { x: dx / magnitude, y: dy / magnitude };
+}
+
+export function rotate(x: number, y: number, radians: number): { x: number; y: number } {
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    x: x * cos - y * sin,
+    y: x * sin + y * cos,
+  };
+}
+
+// Piecewise-linear lookup over [x, y] points sorted by x. Holds the end values outside the range.
+export function sampleCurve(points: readonly (readonly [number, number])[], at: number): number {
+  if (points.length === 0) {
+    return 0;
+  }
+  if (at <= points[0][0]) {
+    return points[0][1];
+  }
+
+  for (let i = 1; i < points.length; i += 1) {
+    const [x, y] = points[i];
+    if (at <= x) {
+      const [prevX, prevY] = points[i - 1];
+      return lerp(prevY, y, (at - prevX) / (x - prevX));
+    }
+  }
+  return points[points.length - 1][1];
+}
@@ -0,0 +1,88 @@
+import type { NumberRange } from "@/lib/game/content";
+import type { GameModeId } from "@/lib/profile";
+
+export interface GameModeDefinition {
+  id: GameModeId;
+  name: string;
+  tagline: string;
+  description: string;
+  // Surviving this long ends the run as a win. Null means the run only ends on defeat.
+  timeLimitSeconds: number | null;
+  // Shields are disabled, so the first contact hit ends the run.
+  oneHit: boolean;
+  spawnDelayScale: number;
+  firstEliteSeconds: NumberRange;
+  eliteIntervalSeconds: NumberRange;
+  // A boss that is still alive when the next one is due pushes it back a full interval.
+  firstBossSeconds: number;
+  bossIntervalSeconds: number;
+  scoreMultiplier: number;
+  rewardMultiplier: number;
+}
+
+export const GAME_MODES: GameModeDefinition[] = [
+  {
+    id: "endless",
+    name: "Endless",
+    tagline: "Classic survival",
+    description: "Survive as long as you can while waves keep escalating.",
+    timeLimitSeconds: null,
+    oneHit: false,
+    spawnDelayScale: 1,
+    firstEliteSeconds: [30, 38],
+    eliteIntervalSeconds: [30, 38],
+    firstBossSeconds: 180,
+    bossIntervalSeconds: 180,
+    scoreMultiplier: 1,
+    rewardMultiplier: 1,
+  },
+  {
+    id: "blitz",
+    name: "Blitz",
+    tagline: "3-minute sprint",
+    description: "Denser waves for three minutes. Last until the timer runs out to clear the run.",
+    timeLimitSeconds: 180,
+    oneHit: false,
+    spawnDelayScale: 0.72,
+    firstEliteSeconds: [24, 30],
+    eliteIntervalSeconds: [24, 30],
+    firstBossSeconds: 120,
+    bossIntervalSeconds: 180,
+    scoreMultiplier: 1.2,
+    rewardMultiplier: 1.15,
+  },
+  {
+    id: "hardcore",
+    name: "Hardcore",
+    tagline: "One hit, big payout",
+    description: "No shields. The first hit ends the run, but score and rewards are boosted.",
+    timeLimitSeconds: null,
+    oneHit: true,
+    spawnDelayScale: 1,
+    firstEliteSeconds: [30, 38],
+    eliteIntervalSeconds: [30, 38],
+    firstBossSeconds: 180,
+    bossIntervalSeconds: 180,
+    scoreMultiplier: 1.5,
+    rewardMultiplier: 1.6,
+  },
+  {
+    id: "boss_rush",
+    name: "Boss Rush",
+    tagline: "Bosses every minute",
+    description: "A boss arrives every minute with elite heavies in between and thinner fodder waves.",
+    timeLimitSeconds: null,
+    oneHit: false,
+    spawnDelayScale: 1.4,
+    firstEliteSeconds: [6, 9],
+    eliteIntervalSeconds: [12, 16],
+    firstBossSeconds: 25,
+    bossIntervalSeconds: 60,
+    scoreMultiplier: 1.3,
+    rewardMultiplier: 1.4,
+  },
+];
+
+export function getGameMode(modeId: GameModeId): GameModeDefinition {
+  return GAME_MODES.find((mode) => mode.id === modeId) ?? GAME_MODES[0];
+}
@@ -0,0 +1,172 @@
+import { clamp, normalize } from "@/lib/game/math";
+
+// Pillars and walls stop everything. Low cover stops movement and enemy shots, but player shots fly over it.
+export type ObstacleKind = "pillar" | "wall" | "cover";
+
+export interface CircleObstacle {
+  kind: ObstacleKind;
+  shape: "circle";
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// Boxes are axis-aligned; x and y are the top-left corner.
+export interface BoxObstacle {
+  kind: ObstacleKind;
+  shape: "box";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Obstacle = CircleObstacle | BoxObstacle;
+
+export interface ObstacleBody {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+const STEERING_LOOKAHEAD = 56;
+// Reused by measureOffset so per-tick collision checks do not allocate.
+const offset = { dx: 0, dy: 0 };
+
+// Distance from the obstacle's nearest surface point to (x, y), with the vector left in `offset`.
+// Zero means (x, y) is inside the obstacle.
+function measureOffset(obstacle: Obstacle, x: number, y: number): number {
+  if (obstacle.shape === "circle") {
+    offset.dx = x - obstacle.x;
+    offset.dy = y - obstacle.y;
+    const centerDistance = Math.hypot(offset.dx, offset.dy);
+    if (centerDistance <= obstacle.radius) {
+      return 0;
+    }
+    const surfaceScale = (centerDistance - obstacle.radius) / centerDistance;
+    offset.dx *= surfaceScale;
+    offset.dy *= surfaceScale;
+    return centerDistance - obstacle.radius;
+  }
+
+  offset.dx = x - clamp(x, obstacle.x, obstacle.x + obstacle.width);
+  offset.dy = y - clamp(y, obstacle.y, obstacle.y + obstacle.height);
+  return Math.hypot(offset.dx, offset.dy);
+}
+
+export function overlapsObstacle(obstacle: Obstacle, x: number, y: number, radius: number): boolean {
+  return measureOffset(obstacle, x, y) < radius;
+}
+
+export function stopsShot(obstacle: Obstacle, hostile: boolean): boolean {
+  return hostile || obstacle.kind !== "cover";
+}
+
+// Moves the body out of any obstacle it overlaps, along the shortest way out.
+export function pushOutOfObstacles(obstacles: readonly Obstacle[], body: ObstacleBody): void {
+  for (const obstacle of obstacles) {
+    const distance = measureOffset(obstacle, body.x, body.y);
+    if (distance >= body.radius) {
+      continue;
+    }
+
+    if (distance > 0) {
+      const push = (body.radius - distance) / distance;
+      body.x += offset.dx * push;
+      body.y += offset.dy * push;
+    } else if (obstacle.shape === "circle") {
+      const away = normalize(body.x - obstacle.x, body.y - obstacle.y);
+      const direction = away.x === 0 && away.y === 0 ? { x: 1, y: 0 } : away;
+      body.x = obstacle.x + direction.x * (obstacle.radius + body.radius);
+      body.y = obstacle.y + direction.y * (obstacle.radius + body.radius);
+    } else {
+      const left = body.x - obstacle.x;
+      const right = obstacle.x + obstacle.width - body.x;
+      const top = body.y - obstacle.y;
+      const bottom = obstacle.y + obstacle.height - body.y;
+      const nearest = Math.min(left, right, top, bottom);
+      if (nearest === left) {
+        body.x = obstacle.x - body.radius;
+      } else if (nearest === right) {
+        body.x = obstacle.x + obstacle.width + body.radius;
+      } else if (nearest === top) {
+        body.y = obstacle.y - body.radius;
+      } else {
+        body.y = obstacle.y + obstacle.height + body.radius;
+      }
+    }
+  }
+}
+
+// Bends a desired heading around obstacles just ahead so chasers slide past pillars instead of pressing into them.
+export function steerAroundObstacles(
+  obstacles: readonly Obstacle[],
+  body: ObstacleBody,
+  dirX: number,
+  dirY: number,
+): { x: number; y: number } {
+  let steerX = dirX;
+  let steerY = dirY;
+  for (const obstacle of obstacles) {
+    const distance = measureOffset(obstacle, body.x, body.y);
+    const gap = distance - body.radius;
+    if (gap > STEERING_LOOKAHEAD || distance === 0) {
+      continue;
+    }
+
+    const awayX = offset.dx / distance;
+    const awayY = offset.dy / distance;
+    const heading = dirX * awayX + dirY * awayY;
+    if (heading >= 0) {
+      continue;
+    }
+
+    // Slide along whichever tangent is closer to the desired heading.
+    const side = dirX * -awayY + dirY * awayX >= 0 ? 1 : -1;
+    const weight = (1 - Math.max(0, gap) / STEERING_LOOKAHEAD) * -heading;
+    steerX += (-awayY * side - awayX * heading) * weight;
+    steerY += (awayX * side - awayY * heading) * weight;
+  }
+
+  return normalize(steerX, steerY);
+}
+
+// Clips [0, 1] of a segment against one slab of a box. Returns false once the clipped range is empty.
+const clip = { enter: 0, exit: 1 };
+function clipAxis(start: number, delta: number, min: number, max: number): boolean {
+  if (delta === 0) {
+    return start >= min && start <= max;
+  }
+  const t1 = (min - start) / delta;
+  const t2 = (max - start) / delta;
+  clip.enter = Math.max(clip.enter, Math.min(t1, t2));
+  clip.exit = Math.min(clip.exit, Math.max(t1, t2));
+  return clip.enter <= clip.exit;
+}
+
+function segmentHitsObstacle(obstacle: Obstacle, x1: number, y1: number, x2: number, y2: number): boolean {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  if (obstacle.shape === "circle") {
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? clamp(((obstacle.x - x1) * dx + (obstacle.y - y1) * dy) / lengthSquared, 0, 1) : 0;
+    return Math.hypot(x1 + dx * t - obstacle.x, y1 + dy * t - obstacle.y) < obstacle.radius;
+  }
+
+  clip.enter = 0;
+  clip.exit = 1;
+  return (
+    clipAxis(x1, dx, obstacle.x, obstacle.x + obstacle.width) &&
+    clipAxis(y1, dy, obstacle.y, obstacle.y + obstacle.height)
+  );
+}
+
+// True when nothing that stops player shots sits between the two points.
+export function hasLineOfSight(obstacles: readonly Obstacle[], x1: number, y1: number, x2: number, y2: number): boolean {
+  for (const obstacle of obstacles) {
+    if (stopsShot(obstacle, false) && segmentHitsObstacle(obstacle, x1, y1, x2, y2)) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,56 @@
+export interface ObjectPool<T> {
+  free: T[];
+  allocated: number;
+  limit: number;
+  create: () => T;
+}
+
+export interface PoolStats {
+  live: number;
+  pooled: number;
+  allocated: number;
+}
+
+export function createPool<T>(create: () => T, limit: number): ObjectPool<T> {
+  return {
+    free: [],
+    allocated: 0,
+    limit,
+    create,
+  };
+}
+
+export function acquire<T>(pool: ObjectPool<T>): T {
+  const recycled = pool.free.pop();
+  if (recycled) {
+    return recycled;
+  }
+
+  pool.allocated += 1;
+  return pool.create();
+}
+
+export function release<T>(pool: ObjectPool<T>, item: T): void {
+  if (pool.free.length < pool.limit) {
+    pool.free.push(item);
+  }
+}
+
+// O(1) removal that moves the last item into the hole. Safe while iterating from the end toward index 0,
+// because the moved item has already been visited.
+export function swapRemove<T>(items: T[], index: number): T {
+  const removed = items[index];
+  const last = items.pop() as T;
+  if (index < items.length) {
+    items[index] = last;
+  }
+  return removed;
+}
+
+export function getPoolStats<T>(pool: ObjectPool<T>, live: number): PoolStats {
+  return {
+    live,
+    pooled: pool.free.length,
+    allocated: pool.allocated,
+  };
+}
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  advanceSeek,
+  captureInput,
+  createPlayback,
+  createRecorder,
+  finishRecording,
+  normalizeReplay,
+  recordInput,
+  type ReplayLoadout,
+  type RunReplay,
+  seekPlayback,
+  stepPlayback,
+} from "@/lib/game/replay";
+import { DEFAULT_META_UPGRADES, resetRound, SIMULATION_STEP_SECONDS, stepRound } from "@/lib/game/simulation";
+
+const LOADOUT: ReplayLoadout = {
+  seed: 77,
+  heroId: "viper",
+  weaponId: "pulse",
+  modeId: "endless",
+  arenaId: "yard",
+  aimMode: "mouse",
+  masteryLevel: 0,
+  secondaryWeaponId: null,
+  secondaryMasteryLevel: 0,
+  metaUpgrades: DEFAULT_META_UPGRADES,
+};
+
+function recordRun(seconds: number): RunReplay {
+  const { seed, heroId, weaponId, metaUpgrades, modeId, arenaId, aimMode } = LOADOUT;
+  const round = resetRound(heroId, weaponId, metaUpgrades, seed, modeId, arenaId, aimMode);
+  const recorder = createRecorder(LOADOUT);
+  const keyboard = { up: false, down: false, left: false, right: false };
+  const pointer = { active: false, x: 0, y: 0 };
+  for (let tick = 0; tick < seconds * 120; tick += 1) {
+    keyboard.up = tick % 480 < 240;
+    keyboard.down = !keyboard.up;
+    const input = captureInput(keyboard, pointer, { active: true, x: Math.cos(tick / 90), y: Math.sin(tick / 90) });
+    recordInput(recorder, round.tick, input);
+    if (stepRound(round, input, SIMULATION_STEP_SECONDS).some((event) => event.type === "defeated")) {
+      break;
+    }
+  }
+  return finishRecording(recorder, round);
+}
+
+describe("replays", () => {
+  it("play back a mouse-aimed run and store a steady aim once", () => {
+    const { seed, heroId, weaponId, metaUpgrades, modeId, arenaId, aimMode } = LOADOUT;
+    const round = resetRound(heroId, weaponId, metaUpgrades, seed, modeId, arenaId, aimMode);
+    const recorder = createRecorder(LOADOUT);
+    const keyboard = { up: false, down: false, left: false, right: true };
+    const pointer = { active: false, x: 0, y: 0 };
+    for (let tick = 0; tick < 120 * 20; tick += 1) {
+      // The cursor holds still on screen while the player walks right, so the offset shrinks a little each tick.
+      const aim = { active: true, x: 300 - tick * 0.05, y: -40 };
+      const input = captureInput(keyboard, pointer, aim);
+      recordInput(recorder, round.tick, input);
+      if (stepRound(round, input, SIMULATION_STEP_SECONDS).some((event) => event.type === "defeated")) {
+        break;
+      }
+    }
+
+    const replay = finishRecording(recorder, round);
+    assert.ok(replay.frames.length < 20);
+
+    const playback = createPlayback(replay);
+    while (!playback.finished) {
+      stepPlayback(playback);
+    }
+    assert.equal(playback.round.tick, round.tick);
+    assert.equal(playback.round.score, round.score);
+    assert.equal(playback.round.kills, round.kills);
+  });
+
+  it("seeks over several slices to the same state as straight playback", () => {
+    const replay = recordRun(30);
+    const target = Math.floor(replay.totalTicks * 0.8);
+    const straight = createPlayback(replay);
+    while (straight.round.tick < target) {
+      stepPlayback(straight);
+    }
+
+    const seeking = createPlayback(replay);
+    seekPlayback(seeking, target);
+    let slices = 0;
+    while (advanceSeek(seeking)) {
+      slices += 1;
+    }
+    assert.ok(slices > 1);
+    assert.equal(seeking.round.tick, target);
+    assert.equal(seeking.round.score, straight.round.score);
+    assert.deepEqual(seeking.round.rng, straight.round.rng);
+  });
+
+  it("loads a stored replay back unchanged", () => {
+    const replay = recordRun(5);
+    assert.deepEqual(normalizeReplay(JSON.parse(JSON.stringify(replay))), replay);
+  });
+
+  it("rejects a stored replay with an unknown weapon", () => {
+    const replay = { ...recordRun(5), weaponId: "railgun" };
+    assert.equal(normalizeReplay(JSON.parse(JSON.stringify(replay))), null);
+  });
+
+  it("rejects a stored replay with a broken frame", () => {
+    const replay = recordRun(5);
+    const stored = { ...replay, frames: [...replay.frames, [replay.totalTicks, 0, 0]] };
+    assert.equal(normalizeReplay(JSON.parse(JSON.stringify(stored))), null);
+  });
+
+  it("rejects a stored replay that picks an unknown upgrade", () => {
+    const replay = recordRun(5);
+    const stored = { ...replay, actions: [{ tick: 10, action: { type: "upgrade", upgradeId: "laser_eyes" } }] };
+    assert.equal(normalizeReplay(JSON.parse(JSON.stringify(stored))), null);
+  });
+});
@@ -0,0 +1,439 @@
+import { CONTENT, HERO_POOL, type HeroId, UPGRADE_POOL } from "@/lib/game/content";
+import {
+  applyRoundAction,
+  DEFAULT_META_UPGRADES,
+  resetRound,
+  type KeyboardState,
+  type PointerState,
+  type RoundAction,
+  type RoundEvent,
+  type RoundInput,
+  type RoundState,
+  SIMULATION_STEP_SECONDS,
+  SIMULATION_VERSION,
+  stepRound,
+  toAimHeading,
+} from "@/lib/game/simulation";
+import {
+  AIM_MODES,
+  type AimMode,
+  ARENA_IDS,
+  type ArenaId,
+  GAME_MODE_IDS,
+  type GameModeId,
+  MAX_MASTERY_LEVEL,
+  type MetaUpgradeLevels,
+  WEAPON_IDS,
+  type WeaponId,
+} from "@/lib/profile";
+
+// [tick, key/pointer bitmask, pointerX, pointerY, aim heading]. Only written when the input changes.
+export type ReplayFrame = [number, number, number, number, number];
+
+export interface ReplayAction {
+  tick: number;
+  action: RoundAction;
+}
+
+export interface ReplayLoadout {
+  seed: number;
+  heroId: HeroId;
+  weaponId: WeaponId;
+  modeId: GameModeId;
+  arenaId: ArenaId;
+  aimMode: AimMode;
+  masteryLevel: number;
+  secondaryWeaponId: WeaponId | null;
+  secondaryMasteryLevel: number;
+  metaUpgrades: MetaUpgradeLevels;
+}
+
+export interface RunReplay extends ReplayLoadout {
+  id: string;
+  version: number;
+  // The content pack and simulation the run was recorded against; playback needs the same ones to match.
+  contentId: string;
+  contentVersion: number;
+  simulationVersion: number;
+  recordedAt: number;
+  totalTicks: number;
+  score: number;
+  kills: number;
+  frames: ReplayFrame[];
+  actions: ReplayAction[];
+}
+
+export interface ReplayRecorder {
+  loadout: ReplayLoadout;
+  frames: ReplayFrame[];
+  actions: ReplayAction[];
+}
+
+export interface ReplayLibrary {
+  recent: RunReplay[];
+  best: RunReplay | null;
+}
+
+interface PlaybackCheckpoint {
+  round: RoundState;
+  frameIndex: number;
+  actionIndex: number;
+}
+
+export interface ReplayPlayback {
+  replay: RunReplay;
+  round: RoundState;
+  frameIndex: number;
+  actionIndex: number;
+  finished: boolean;
+  checkpoints: PlaybackCheckpoint[];
+  // Tick a seek is still catching up to; advanceSeek closes the gap a slice at a time.
+  seekTarget: number | null;
+}
+
+// Version 2 records manual aim as a heading instead of a world point.
+export const REPLAY_FORMAT_VERSION = 2;
+export const REPLAY_STORAGE_KEY = "stickparty.replays.v1";
+const MAX_RECENT_REPLAYS = 5;
+const CHECKPOINT_INTERVAL_TICKS = 1_200;
+const SEEK_TICKS_PER_ADVANCE = 120;
+
+const KEY_UP = 1;
+const KEY_DOWN = 2;
+const KEY_LEFT = 4;
+const KEY_RIGHT = 8;
+const POINTER_ACTIVE = 16;
+const AIM_ACTIVE = 32;
+
+function encodeInput(input: RoundInput): [number, number, number, number] {
+  let mask = 0;
+  mask |= input.keyboard.up ? KEY_UP : 0;
+  mask |= input.keyboard.down ? KEY_DOWN : 0;
+  mask |= input.keyboard.left ? KEY_LEFT : 0;
+  mask |= input.keyboard.right ? KEY_RIGHT : 0;
+  mask |= input.pointer.active ? POINTER_ACTIVE : 0;
+  mask |= input.aim.active ? AIM_ACTIVE : 0;
+  return [mask, input.pointer.x, input.pointer.y, input.aim.heading];
+}
+
+function decodeFrame(frame: ReplayFrame | undefined): RoundInput {
+  const [, mask, x, y, heading] = frame ?? [0, 0, 0, 0, 0];
+  return {
+    keyboard: {
+      up: (mask & KEY_UP) !== 0,
+      down: (mask & KEY_DOWN) !== 0,
+      left: (mask & KEY_LEFT) !== 0,
+      right: (mask & KEY_RIGHT) !== 0,
+    },
+    pointer: {
+      active: (mask & POINTER_ACTIVE) !== 0,
+      x,
+      y,
+    },
+    aim: {
+      active: (mask & AIM_ACTIVE) !== 0,
+      heading,
+    },
+  };
+}
+
+// Live play feeds the simulation the same rounded values the recorder stores, so playback cannot drift.
+// `aim` is an offset from the player; it is stored as a heading.
+export function captureInput(keyboard: KeyboardState, pointer: PointerState, aim: PointerState): RoundInput {
+  return {
+    keyboard: { ...keyboard },
+    pointer: {
+      active: pointer.active,
+      x: Math.round(pointer.x),
+      y: Math.round(pointer.y),
+    },
+    aim: {
+      active: aim.active && (aim.x !== 0 || aim.y !== 0),
+      heading: toAimHeading(aim.x, aim.y),
+    },
+  };
+}
+
+export function createRecorder(loadout: ReplayLoadout): ReplayRecorder {
+  return {
+    loadout: { ...loadout, metaUpgrades: { ...loadout.metaUpgrades } },
+    frames: [],
+    actions: [],
+  };
+}
+
+export function recordInput(recorder: ReplayRecorder, tick: number, input: RoundInput): void {
+  const [mask, x, y, heading] = encodeInput(input);
+  const last = recorder.frames[recorder.frames.length - 1];
+  if (last && last[1] === mask && last[2] === x && last[3] === y && last[4] === heading) {
+    return;
+  }
+
+  recorder.frames.push([tick, mask, x, y, heading]);
+}
+
+export function recordAction(recorder: ReplayRecorder, tick: number, action: RoundAction): void {
+  recorder.actions.push({ tick, action });
+}
+
+export function finishRecording(recorder: ReplayRecorder, finalState: RoundState, now = Date.now()): RunReplay {
+  return {
+    ...recorder.loadout,
+    id: `${recorder.loadout.seed.toString(36)}-${now.toString(36)}`,
+    version: REPLAY_FORMAT_VERSION,
+    contentId: CONTENT.id,
+    contentVersion: CONTENT.version,
+    simulationVersion: SIMULATION_VERSION,
+    recordedAt: now,
+    totalTicks: finalState.tick,
+    score: Math.floor(finalState.score),
+    kills: finalState.kills,
+    frames: recorder.frames,
+    actions: recorder.actions,
+  };
+}
+
+export function createPlayback(replay: RunReplay): ReplayPlayback {
+  const round = resetRound(
+    replay.heroId,
+    replay.weaponId,
+    replay.metaUpgrades,
+    replay.seed,
+    replay.modeId,
+    replay.arenaId,
+    replay.aimMode,
+    replay.masteryLevel,
+    replay.secondaryWeaponId,
+    replay.secondaryMasteryLevel,
+  );
+  return {
+    replay,
+    round,
+    frameIndex: -1,
+    actionIndex: 0,
+    finished: replay.totalTicks <= 0,
+    checkpoints: [{ round: structuredClone(round), frameIndex: -1, actionIndex: 0 }],
+    seekTarget: null,
+  };
+}
+
+export function stepPlayback(playback: ReplayPlayback): RoundEvent[] {
+  if (playback.finished) {
+    return [];
+  }
+
+  const { replay, round } = playback;
+  while (
+    playback.frameIndex + 1 < replay.frames.length &&
+    replay.frames[playback.frameIndex + 1][0] <= round.tick
+  ) {
+    playback.frameIndex += 1;
+  }
+
+  const input = decodeFrame(replay.frames[playback.frameIndex]);
+  const events: RoundEvent[] = [];
+  while (playback.actionIndex < replay.actions.length && replay.actions[playback.actionIndex].tick <= round.tick) {
+    events.push(...applyRoundAction(round, input, replay.actions[playback.actionIndex].action));
+    playback.actionIndex += 1;
+  }
+
+  events.push(...stepRound(round, input, SIMULATION_STEP_SECONDS));
+  if (
+    round.tick >= replay.totalTicks ||
+    events.some((event) => event.type === "defeated" || event.type === "victory")
+  ) {
+    playback.finished = true;
+  }
+
+  const lastCheckpoint = playback.checkpoints[playback.checkpoints.length - 1];
+  if (round.tick - lastCheckpoint.round.tick >= CHECKPOINT_INTERVAL_TICKS) {
+    playback.checkpoints.push({
+      round: structuredClone(round),
+      frameIndex: playback.frameIndex,
+      actionIndex: playback.actionIndex,
+    });
+  }
+
+  return events;
+}
+
+export function seekPlayback(playback: ReplayPlayback, tick: number): void {
+  const target = Math.max(0, Math.min(playback.replay.totalTicks, Math.floor(tick)));
+  let checkpoint = playback.checkpoints[0];
+  for (const candidate of playback.checkpoints) {
+    if (candidate.round.tick <= target) {
+      checkpoint = candidate;
+    }
+  }
+
+  playback.round = structuredClone(checkpoint.round);
+  playback.frameIndex = checkpoint.frameIndex;
+  playback.actionIndex = checkpoint.actionIndex;
+  playback.finished = false;
+  playback.seekTarget = playback.round.tick < target ? target : null;
+}
+
+// Re-simulates at most `maxTicks` toward a pending seek so the catch-up never stalls a frame.
+// Returns whether the seek is still under way.
+export function advanceSeek(playback: ReplayPlayback, maxTicks = SEEK_TICKS_PER_ADVANCE): boolean {
+  const target = playback.seekTarget;
+  if (target === null) {
+    return false;
+  }
+
+  for (let step = 0; step < maxTicks && !playback.finished && playback.round.tick < target; step += 1) {
+    stepPlayback(playback);
+  }
+  if (playback.finished || playback.round.tick >= target) {
+    playback.seekTarget = null;
+  }
+  return playback.seekTarget !== null;
+}
+
+function isCount(value: unknown, max = Number.MAX_SAFE_INTEGER): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= max;
+}
+
+function isReplayFrame(value: unknown): value is ReplayFrame {
+  return (
+    Array.isArray(value) &&
+    value.length === 5 &&
+    isCount(value[0]) &&
+    isCount(value[1]) &&
+    value.every((part) => typeof part === "number" && Number.isFinite(part))
+  );
+}
+
+function isReplayAction(value: unknown): value is ReplayAction {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const { tick, action } = value as Partial<ReplayAction>;
+  if (!isCount(tick) || !action || typeof action !== "object") {
+    return false;
+  }
+
+  if (action.type === "upgrade" || action.type === "banish") {
+    return UPGRADE_POOL.some((upgrade) => upgrade.id === action.upgradeId);
+  }
+
+  return action.type === "dash" || action.type === "power" || action.type === "reroll" || action.type === "skip";
+}
+
+function isMetaUpgradeLevels(value: unknown): value is MetaUpgradeLevels {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const levels = value as Record<string, unknown>;
+  return Object.keys(DEFAULT_META_UPGRADES).every((key) => isCount(levels[key]));
+}
+
+// Replays recorded against other content or another simulation version would desync, so they are dropped. So is
+// anything malformed: playback feeds every field straight into the simulation.
+export function normalizeReplay(value: unknown): RunReplay | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const candidate = value as Partial<RunReplay>;
+  if (
+    candidate.version !== REPLAY_FORMAT_VERSION ||
+    candidate.contentId !== CONTENT.id ||
+    candidate.contentVersion !== CONTENT.version ||
+    candidate.simulationVersion !== SIMULATION_VERSION ||
+    typeof candidate.id !== "string" ||
+    typeof candidate.seed !== "number" ||
+    !isCount(candidate.recordedAt) ||
+    !isCount(candidate.totalTicks) ||
+    !isCount(candidate.score) ||
+    !isCount(candidate.kills) ||
+    !HERO_POOL.some((hero) => hero.id === candidate.heroId) ||
+    !WEAPON_IDS.includes(candidate.weaponId as WeaponId) ||
+    !(candidate.secondaryWeaponId === null || WEAPON_IDS.includes(candidate.secondaryWeaponId as WeaponId)) ||
+    !GAME_MODE_IDS.includes(candidate.modeId as GameModeId) ||
+    !ARENA_IDS.includes(candidate.arenaId as ArenaId) ||
+    !AIM_MODES.includes(candidate.aimMode as AimMode) ||
+    !isCount(candidate.masteryLevel, MAX_MASTERY_LEVEL) ||
+    !isCount(candidate.secondaryMasteryLevel, MAX_MASTERY_LEVEL) ||
+    !isMetaUpgradeLevels(candidate.metaUpgrades) ||
+    !Array.isArray(candidate.frames) ||
+    !candidate.frames.every(isReplayFrame) ||
+    !Array.isArray(candidate.actions) ||
+    !candidate.actions.every(isReplayAction)
+  ) {
+    return null;
+  }
+
+  return candidate as RunReplay;
+}
+
+export function createEmptyReplayLibrary(): ReplayLibrary {
+  return {
+    recent: [],
+    best: null,
+  };
+}
+
+export function loadReplayLibrary(): ReplayLibrary {
+  if (typeof window === "undefined") {
+    return createEmptyReplayLibrary();
+  }
+
+  const raw = window.localStorage.getItem(REPLAY_STORAGE_KEY);
+  if (!raw) {
+    return createEmptyReplayLibrary();
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<ReplayLibrary>;
+    return {
+      recent: (Array.isArray(parsed.recent) ? parsed.recent : [])
+        .map(normalizeReplay)
+        .filter((replay): replay is RunReplay => replay !== null)
+        .slice(0, MAX_RECENT_REPLAYS),
+      best: normalizeReplay(parsed.best),
+    };
+  } catch {
+    return createEmptyReplayLibrary();
+  }
+}
+
+export function saveReplayLibrary(library: ReplayLibrary): ReplayLibrary {
+  if (typeof window !== "undefined") {
+    try {
+      window.localStorage.setItem(REPLAY_STORAGE_KEY, JSON.stringify(library));
+    } catch {
+      // Quota exceeded: fall back to the personal best alone so replays never crowd out the profile.
+      window.localStorage.removeItem(REPLAY_STORAGE_KEY);
+      try {
+        window.localStorage.setItem(REPLAY_STORAGE_KEY, JSON.stringify({ recent: [], best: library.best }));
+      } catch {
+        return library;
+      }
+    }
+  }
+
+  return library;
+}
+
+export function storeReplay(library: ReplayLibrary, replay: RunReplay): ReplayLibrary {
+  const isBest = !library.best || replay.score > library.best.score;
+  return {
+    recent: [replay, ...library.recent.filter((entry) => entry.id !== replay.id)].slice(0, MAX_RECENT_REPLAYS),
+    best: isBest ? replay : library.best,
+  };
+}
+
+export function findReplay(library: ReplayLibrary, replayId: string | null): RunReplay | null {
+  if (!replayId) {
+    return null;
+  }
+
+  if (library.best?.id === replayId) {
+    return library.best;
+  }
+
+  return library.recent.find((replay) => replay.id === replayId) ?? null;
+}
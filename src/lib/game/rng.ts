@@ -0,0 +1,33 @@
+export interface RngState {
+  seed: number;
+  state: number;
+}
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+export function createRng(seed: number): RngState {
+  const cleanSeed = Math.floor(Math.abs(seed)) >>> 0;
+  return {
+    seed: cleanSeed,
+    state: cleanSeed,
+  };
+}
+
+// mulberry32: small, fast, and fully described by one 32-bit integer, so a run can be resumed from a snapshot.
+export function nextRandom(rng: RngState): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function rollRange(rng: RngState, min: number, max: number): number {
+  return min + nextRandom(rng) * (max - min);
+}
+
+export function rollInt(rng: RngState, maxExclusive: number): number {
+  return Math.floor(nextRandom(rng) * maxExclusive);
+}
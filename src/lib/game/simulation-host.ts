@@ -0,0 +1,116 @@
+import {
+  createSimulationRuntime,
+  handleSimulationRequest,
+  type SimulationRequest,
+  type SimulationUpdate,
+} from "@/lib/game/live-session";
+
+export type SimulationHostKind = "worker" | "main_thread";
+
+export interface SimulationHost {
+  kind: SimulationHostKind;
+  send: (request: SimulationRequest) => void;
+  dispose: () => void;
+}
+
+function createMainThreadHost(onUpdate: (update: SimulationUpdate) => void): SimulationHost {
+  const runtime = createSimulationRuntime();
+  return {
+    kind: "main_thread",
+    send: (request) => {
+      const update = handleSimulationRequest(runtime, request);
+      if (update) {
+        onUpdate(update);
+      }
+    },
+    dispose: () => {
+      runtime.session = null;
+    },
+  };
+}
+
+function createWorkerHost(
+  onUpdate: (update: SimulationUpdate) => void,
+  onFailure: () => void,
+): SimulationHost | null {
+  if (typeof Worker === "undefined") {
+    return null;
+  }
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL("./simulation.worker.ts", import.meta.url), { type: "module" });
+  } catch {
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<SimulationUpdate>) => {
+    onUpdate(event.data);
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    onFailure();
+  };
+
+  return {
+    kind: "worker",
+    send: (request) => {
+      worker.postMessage(request);
+    },
+    dispose: () => {
+      worker.terminate();
+    },
+  };
+}
+
+// Prefers a dedicated worker so React work never competes with ticks; falls back to running in-thread.
+export function createSimulationHost(onUpdate: (update: SimulationUpdate) => void): SimulationHost {
+  let lastStart: SimulationRequest | null = null;
+  let lastUpdate: SimulationUpdate | null = null;
+  let delegate: SimulationHost;
+
+  const forward = (update: SimulationUpdate): void => {
+    lastUpdate = update;
+    onUpdate(update);
+  };
+
+  // A worker that fails before the run reported anything hands it to the main thread from its recorded start. One that
+  // crashes mid-run ends that run where it stood instead of replaying it from tick 0; later runs use the main thread.
+  const fallBack = (): void => {
+    delegate.dispose();
+    delegate = createMainThreadHost(forward);
+    if (!lastStart) {
+      return;
+    }
+
+    if (!lastUpdate) {
+      delegate.send(lastStart);
+    } else {
+      lastStart = null;
+      onUpdate({
+        ...lastUpdate,
+        events: [{ type: "defeated" }, { type: "status", message: "The simulation stopped unexpectedly." }],
+        replay: null,
+      });
+    }
+  };
+
+  delegate = createWorkerHost(forward, fallBack) ?? createMainThreadHost(forward);
+  return {
+    get kind() {
+      return delegate.kind;
+    },
+    send: (request) => {
+      if (request.type === "start") {
+        lastStart = request;
+        lastUpdate = null;
+      } else if (request.type === "stop") {
+        lastStart = null;
+      }
+      delegate.send(request);
+    },
+    dispose: () => {
+      delegate.dispose();
+    },
+  };
+}
@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { AimMode, WeaponId } from "@/lib/profile";
+import {
+  type Enemy,
+  getEntityPoolStats,
+  type RoundInput,
+  type RoundState,
+  resetRound,
+  stepRound,
+} from "@/lib/game/simulation";
+
+const TICK = 1 / 120;
+const IDLE_INPUT: RoundInput = {
+  keyboard: { up: false, down: false, left: false, right: false },
+  pointer: { active: false, x: 0, y: 0 },
+  aim: { active: false, heading: 0 },
+};
+const AIM_RIGHT: RoundInput = { ...IDLE_INPUT, aim: { active: true, heading: 0 } };
+
+function createRound(weaponId: WeaponId, masteryLevel = 0, aimMode: AimMode = "auto"): RoundState {
+  const round = resetRound("viper", weaponId, undefined, 1234, undefined, undefined, aimMode, masteryLevel);
+  round.obstacles = [];
+  round.lastShotAt = -10;
+  return round;
+}
+
+// A still enemy to the right of the player, facing along (aimX, 0).
+function placeEnemy(round: RoundState, type: Enemy["type"], aimX: number, distance: number): Enemy {
+  const x = round.playerX + distance;
+  const y = round.playerY;
+  const enemy: Enemy = {
+    id: 9000 + round.enemies.length,
+    x,
+    y,
+    prevX: x,
+    prevY: y,
+    radius: 16,
+    baseSpeed: 0,
+    hue: 210,
+    hp: 5,
+    maxHp: 5,
+    type,
+    wobble: 0,
+    drift: 0,
+    elite: false,
+    phase: "chase",
+    phaseEndsAt: 0,
+    aimX,
+    aimY: 0,
+    abilityReadyAt: 0,
+  };
+  round.enemies.push(enemy);
+  return enemy;
+}
+
+function placeShielded(round: RoundState, aimX: number, distance = 100): Enemy {
+  return placeEnemy(round, "shielded", aimX, distance);
+}
+
+function runFor(round: RoundState, seconds: number, input = IDLE_INPUT): void {
+  for (let tick = 0; tick < seconds / TICK; tick += 1) {
+    stepRound(round, input, TICK);
+  }
+}
+
+describe("front shields", () => {
+  it("let a flanking pulse shot through", () => {
+    const round = createRound("pulse", 0, "mouse");
+    const enemy = placeShielded(round, 1);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.ok(enemy.hp < enemy.maxHp);
+  });
+
+  it("block a pulse shot into the front arc", () => {
+    const round = createRound("pulse", 0, "mouse");
+    const enemy = placeShielded(round, -1);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.equal(enemy.hp, enemy.maxHp);
+  });
+
+  it("block scatter pellets into the front arc", () => {
+    const round = createRound("scatter", 0, "mouse");
+    const enemy = placeShielded(round, -1);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.equal(enemy.hp, enemy.maxHp);
+  });
+
+  it("let the lance break through the front arc", () => {
+    const round = createRound("lance", 0, "mouse");
+    const enemy = placeShielded(round, -1);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.ok(enemy.hp < enemy.maxHp);
+  });
+
+  it("block a boomerang thrown into the front arc", () => {
+    const round = createRound("boomerang", 0, "mouse");
+    const enemy = placeShielded(round, -1);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.equal(enemy.hp, enemy.maxHp);
+  });
+
+  it("let a boomerang hit a shield-bearer from behind", () => {
+    const round = createRound("boomerang", 0, "mouse");
+    const enemy = placeShielded(round, 1);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.ok(enemy.hp < enemy.maxHp);
+  });
+
+  it("block orbit blades sweeping into the front arc", () => {
+    const round = createRound("blades", 0, "mouse");
+    const enemy = placeShielded(round, -1, 52);
+    runFor(round, 1, AIM_RIGHT);
+    assert.equal(enemy.hp, enemy.maxHp);
+  });
+
+  it("let orbit blades cut a shield-bearer facing away", () => {
+    const round = createRound("blades", 0, "mouse");
+    const enemy = placeShielded(round, 1, 52);
+    runFor(round, 1, AIM_RIGHT);
+    assert.ok(enemy.hp < enemy.maxHp);
+  });
+
+  it("keep chain lightning out of the front arc", () => {
+    const round = createRound("tesla", 0, "mouse");
+    const enemy = placeShielded(round, -1);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.equal(enemy.hp, enemy.maxHp);
+  });
+
+  it("let chain lightning strike a shield-bearer from behind", () => {
+    const round = createRound("tesla", 0, "mouse");
+    const enemy = placeShielded(round, 1);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.ok(enemy.hp < enemy.maxHp);
+  });
+
+  it("block the flamethrower despite its pierce", () => {
+    const round = createRound("flamer", 0, "mouse");
+    const enemy = placeShielded(round, -1, 70);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.equal(enemy.hp, enemy.maxHp);
+  });
+
+  it("let flames burn a shield-bearer from behind", () => {
+    const round = createRound("flamer", 0, "mouse");
+    const enemy = placeShielded(round, 1, 70);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.ok(enemy.hp < enemy.maxHp);
+  });
+
+  it("soak blast splash that lands in front of the shield", () => {
+    const round = createRound("pulse", 0, "mouse");
+    round.build.blastRadius = 60;
+    const runner = placeEnemy(round, "runner", -1, 100);
+    const enemy = placeShielded(round, -1, 140);
+    runFor(round, 0.5, AIM_RIGHT);
+    assert.ok(runner.hp < runner.maxHp);
+    assert.equal(enemy.hp, enemy.maxHp);
+  });
+});
+
+describe("weapon mastery", () => {
+  // Damage of the first shot fired to the right of an empty arena.
+  function firstShotDamage(weaponId: WeaponId, masteryLevel: number): number {
+    const round = createRound(weaponId, masteryLevel, "mouse");
+    for (let tick = 0; tick < 120 && round.projectiles.length === 0; tick += 1) {
+      stepRound(round, AIM_RIGHT, TICK);
+    }
+    assert.ok(round.projectiles.length > 0, `${weaponId} never fired`);
+    return round.projectiles[0].damage;
+  }
+
+  it("Hardened Core adds one damage to pulse shots", () => {
+    assert.equal(firstShotDamage("pulse", 3), firstShotDamage("pulse", 2) + 1);
+  });
+
+  it("Violet Pellets adds one damage to scatter pellets", () => {
+    assert.equal(firstShotDamage("scatter", 5), firstShotDamage("scatter", 4) + 1);
+  });
+
+  it("Royal Lance adds one damage to lance shots", () => {
+    assert.equal(firstShotDamage("lance", 5), firstShotDamage("lance", 4) + 1);
+  });
+
+  it("Green Fire adds one damage to flames", () => {
+    assert.equal(firstShotDamage("flamer", 5), firstShotDamage("flamer", 4) + 1);
+  });
+});
+
+describe("entity pools", () => {
+  function allocated(round: RoundState): number {
+    const stats = getEntityPoolStats(round);
+    return (
+      stats.enemies.allocated +
+      stats.projectiles.allocated +
+      stats.hostileProjectiles.allocated +
+      stats.orbs.allocated +
+      stats.pickups.allocated
+    );
+  }
+
+  it("reuse the previous round's entities instead of allocating new ones", () => {
+    const first = resetRound("viper", "scatter", undefined, 77);
+    runFor(first, 20);
+    assert.ok(first.enemies.length > 0);
+    const afterFirst = allocated(first);
+
+    const second = resetRound("viper", "scatter", undefined, 77, undefined, undefined, undefined, 0, null, 0, first);
+    runFor(second, 20);
+    assert.equal(allocated(second), afterFirst);
+  });
+});
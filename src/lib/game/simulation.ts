@@ -0,0 +1,2411 @@
+import {
+  BOSS_ENEMY,
+  type BossStageDefinition,
+  ELITE_ENEMY,
+  type EnemyDefinition,
+  type EnemyHealDefinition,
+  type EnemyRangedDefinition,
+  ENEMY_POOL,
+  type EnemyType,
+  getEnemyDefinition,
+  getHero,
+  getMasteredFire,
+  getMetaUpgradeBonus,
+  getUpgrade,
+  getWeapon,
+  type HeroId,
+  type HeroPowerBehaviorId,
+  type HeroPowerDefinition,
+  isEvolution,
+  type NumberRange,
+  type SpawnableEnemyType,
+  UPGRADE_POOL,
+  type UpgradeDefinition,
+  type UpgradeId,
+  type UpgradeRarity,
+  WAVE_SCRIPT,
+  type WaveDefinition,
+  type WeaponBehaviorId,
+  type WeaponFireDefinition,
+} from "@/lib/game/content";
+import {
+  type ArenaDefinition,
+  type ArenaEdge,
+  ARENA_TILE_HEIGHT,
+  ARENA_TILE_WIDTH,
+  ARENA_TILES,
+  type ConveyorHazard,
+  getArena,
+  getLaserLane,
+  getWindDirection,
+  isLaserLive,
+  type LaserHazard,
+} from "@/lib/game/arenas";
+import {
+  createDifficultyState,
+  type DifficultyState,
+  isDifficultySampleDue,
+  recordDifficultySample,
+} from "@/lib/game/difficulty";
+import { clamp, normalize, rotate, sampleCurve } from "@/lib/game/math";
+import { type GameModeDefinition, getGameMode } from "@/lib/game/modes";
+import {
+  hasLineOfSight,
+  type Obstacle,
+  type ObstacleBody,
+  overlapsObstacle,
+  pushOutOfObstacles,
+  steerAroundObstacles,
+  stopsShot,
+} from "@/lib/game/obstacles";
+import { acquire, createPool, getPoolStats, type PoolStats, release, swapRemove } from "@/lib/game/pool";
+import { createRng, createSeed, nextRandom, rollInt, rollRange, type RngState } from "@/lib/game/rng";
+import {
+  createSpatialGrid,
+  findNearestInGrid,
+  querySpatialGrid,
+  rebuildSpatialGrid,
+} from "@/lib/game/spatial-grid";
+import type { AimMode, ArenaId, GameModeId, MetaUpgradeLevels, WeaponId } from "@/lib/profile";
+
+export type PickupKind = "shield" | "frenzy" | "stasis" | "cache";
+// Regular enemies stay in "chase"; bosses telegraph each attack with a windup phase first.
+export type EnemyPhase = "chase" | "charge_windup" | "charge" | "slam_windup" | "summon_windup";
+
+export interface Enemy {
+  id: number;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  radius: number;
+  baseSpeed: number;
+  hue: number;
+  hp: number;
+  maxHp: number;
+  type: EnemyType;
+  wobble: number;
+  drift: number;
+  elite: boolean;
+  phase: EnemyPhase;
+  phaseEndsAt: number;
+  aimX: number;
+  aimY: number;
+  abilityReadyAt: number;
+}
+
+export interface Projectile {
+  id: number;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  ttl: number;
+  damage: number;
+  radius: number;
+  pierce: number;
+  behavior: WeaponBehaviorId;
+  age: number;
+  // Boomerang turn-back distance or blade orbit radius.
+  range: number;
+  // Blade orbit angle and its turn rate in radians per second.
+  angle: number;
+  spin: number;
+  // Start of a lightning segment; the segment ends at (x, y).
+  originX: number;
+  originY: number;
+  // Projectiles that survive hits skip the enemy they last struck until rehitAt.
+  lastHitId: number;
+  rehitAt: number;
+  // Modifiers: edge bounces left, homing turn rate in radians per second, splash radius on hit and forks on a kill.
+  bounces: number;
+  homing: number;
+  blastRadius: number;
+  splits: number;
+  // Set from the weapon's shieldBreak flag; only these shots pass through front shields.
+  shieldBreak: boolean;
+  // Fired from the secondary weapon slot; drives its tint and kill credit.
+  secondary: boolean;
+}
+
+// Fired by ranged enemies. They never pierce and hit only the player.
+export interface HostileProjectile {
+  id: number;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  ttl: number;
+  radius: number;
+}
+
+export interface Orb {
+  id: number;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  radius: number;
+  xp: number;
+  score: number;
+  ttl: number;
+}
+
+export interface Pickup {
+  id: number;
+  x: number;
+  y: number;
+  radius: number;
+  ttl: number;
+  kind: PickupKind;
+}
+
+export interface BuildState {
+  moveSpeed: number;
+  fireInterval: number;
+  shotDamage: number;
+  multiShot: number;
+  dashCooldown: number;
+  pickupRadius: number;
+  // Projectile modifiers copied onto each shot the weapon fires.
+  ricochet: number;
+  homing: number;
+  blastRadius: number;
+  splitShots: number;
+  maxShield: number;
+  shield: number;
+}
+
+export interface RoundState {
+  heroId: HeroId;
+  weaponId: WeaponId;
+  // Mastery level of the weapon when the run started; its perks apply for the whole run.
+  masteryLevel: number;
+  // The optional second weapon fires on its own, slower cycle.
+  secondaryWeaponId: WeaponId | null;
+  secondaryMasteryLevel: number;
+  modeId: GameModeId;
+  arenaId: ArenaId;
+  aimMode: AimMode;
+  playerX: number;
+  playerY: number;
+  prevPlayerX: number;
+  prevPlayerY: number;
+  playerRadius: number;
+  // Center of the camera view, eased toward the player and kept inside the world.
+  cameraX: number;
+  cameraY: number;
+  prevCameraX: number;
+  prevCameraY: number;
+  obstacles: readonly Obstacle[];
+  enemies: Enemy[];
+  projectiles: Projectile[];
+  hostileProjectiles: HostileProjectile[];
+  orbs: Orb[];
+  pickups: Pickup[];
+  elapsed: number;
+  score: number;
+  spawnClock: number;
+  spawnedEnemies: number;
+  // Index into WAVE_SCRIPT of the current or next scripted wave; past the end means procedural spawning.
+  waveIndex: number;
+  waveAnnounced: boolean;
+  kills: number;
+  // The share of kills made by the secondary weapon; everything else counts for the primary.
+  secondaryKills: number;
+  level: number;
+  xp: number;
+  xpToNext: number;
+  combo: number;
+  comboExpireAt: number;
+  bestCombo: number;
+  lastShotAt: number;
+  lastSecondaryShotAt: number;
+  dashReadyAt: number;
+  dashingUntil: number;
+  dashDirX: number;
+  dashDirY: number;
+  // Direction of the last volley.
+  aimDirX: number;
+  aimDirY: number;
+  invulnerableUntil: number;
+  shieldsLost: number;
+  difficulty: DifficultyState;
+  powerCharge: number;
+  frenzyUntil: number;
+  stasisUntil: number;
+  nextEliteAt: number;
+  nextBossAt: number;
+  bossesSpawned: number;
+  bossesDefeated: number;
+  contractTarget: number;
+  contractProgress: number;
+  contractExpireAt: number;
+  nextContractAt: number;
+  powerGainScale: number;
+  build: BuildState;
+  // Upgrades in the order they were first taken, and how many levels of each the player has.
+  upgrades: UpgradeId[];
+  upgradeLevels: Partial<Record<UpgradeId, number>>;
+  upgradeChoices: UpgradeId[];
+  // Per-run charges from meta upgrades. Banished upgrades are never offered again this run.
+  rerollsLeft: number;
+  banishesLeft: number;
+  banishedUpgrades: UpgradeId[];
+  rng: RngState;
+  lastEntityId: number;
+  tick: number;
+}
+
+export interface KeyboardState {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+}
+
+export interface PointerState {
+  active: boolean;
+  x: number;
+  y: number;
+}
+
+// Manual aim as a heading from the player, so a steady aim stays one replay frame while the camera scrolls.
+export interface AimState {
+  active: boolean;
+  // Steps of a full turn out of AIM_HEADING_STEPS, starting along +x.
+  heading: number;
+}
+
+// `pointer` is a world point to move toward; auto-aim ignores `aim`.
+export interface RoundInput {
+  keyboard: KeyboardState;
+  pointer: PointerState;
+  aim: AimState;
+}
+
+// Only valid while upgrade choices are on offer.
+export type LevelUpAction =
+  | { type: "upgrade"; upgradeId: UpgradeId }
+  | { type: "reroll" }
+  | { type: "banish"; upgradeId: UpgradeId }
+  | { type: "skip" };
+
+export type RoundAction = { type: "dash" } | { type: "power" } | LevelUpAction;
+
+export interface EntityPoolStats {
+  enemies: PoolStats;
+  projectiles: PoolStats;
+  hostileProjectiles: PoolStats;
+  orbs: PoolStats;
+  pickups: PoolStats;
+}
+
+export type RoundEvent =
+  | { type: "status"; message: string }
+  | { type: "shield_lost"; shield: number; maxShield: number }
+  | { type: "level_up"; level: number; choices: UpgradeId[] }
+  | { type: "upgrade_choices"; choices: UpgradeId[] }
+  | { type: "defeated" }
+  | { type: "victory" };
+
+// The world is several screens wide; the camera shows a VIEW_WIDTH x VIEW_HEIGHT window of it.
+export const ARENA_WIDTH = ARENA_TILE_WIDTH * ARENA_TILES;
+export const ARENA_HEIGHT = ARENA_TILE_HEIGHT * ARENA_TILES;
+export const VIEW_WIDTH = 960;
+export const VIEW_HEIGHT = 540;
+export const PLAYER_SPEED = 242;
+export const PROJECTILE_SPEED = 460;
+export const MIN_SPAWN_DELAY = 0.3;
+export const START_SPAWN_DELAY = 1.14;
+export const PROJECTILE_TTL = 1.6;
+export const COMBO_WINDOW_SECONDS = 2.7;
+export const DASH_DURATION_SECONDS = 0.24;
+export const DASH_MULTIPLIER = 2.8;
+export const SIMULATION_HZ = 120;
+export const SIMULATION_STEP_SECONDS = 1 / SIMULATION_HZ;
+export const MAX_FRAME_SECONDS = 0.25;
+export const MAX_ENEMIES = 220;
+export const MAX_PROJECTILES = 420;
+export const MAX_HOSTILE_PROJECTILES = 160;
+export const AIM_HEADING_STEPS = 256;
+// Bump whenever a change makes the same inputs play out differently; replays from another version are dropped.
+export const SIMULATION_VERSION = 1;
+
+export const DEFAULT_META_UPGRADES: MetaUpgradeLevels = {
+  armor: 0,
+  agility: 0,
+  reactor: 0,
+  tactics: 0,
+  veto: 0,
+};
+
+// Enemies spawn this far outside the camera view.
+const EDGE_SPAWN_MARGIN = 42;
+const UPGRADE_CHOICE_COUNT = 3;
+// Orbit blades turn this many radians per second at speedScale 1.
+const BLADE_SPIN = 6.5;
+const CHAIN_FIRST_REACH_SCALE = 2;
+// Cosine of the half-angle around the aim direction in which chain lightning picks its first target.
+const CHAIN_AIM_CONE = 0.7;
+const LIGHTNING_SEGMENT_TTL = 0.14;
+const FLAME_DRAG = 3;
+const FLAME_GROWTH = 16;
+const PERSISTENT_REHIT_SECONDS = 0.3;
+const HOMING_RANGE = 220;
+const BLAST_DAMAGE_SCALE = 0.5;
+const SPLIT_SPREAD = 0.35;
+const SPLIT_TTL = 0.7;
+const SKIP_POWER_CHARGE = 35;
+const SKIP_SCORE_PER_LEVEL = 40;
+const UPGRADE_RARITY_WEIGHTS: Record<UpgradeRarity, number> = {
+  common: 6,
+  rare: 3,
+  epic: 1,
+};
+// Share of the gap to the player the camera closes per second; lower trails further behind.
+const CAMERA_FOLLOW_RATE = 5;
+const ENEMY_GRID_MARGIN = 64;
+const ENEMY_GRID_CELL_SIZE = 64;
+
+// Rebuilt from round.enemies whenever positions change; never stored on the round so snapshots stay plain data.
+const enemyGrid = createSpatialGrid<Enemy>(
+  -ENEMY_GRID_MARGIN,
+  -ENEMY_GRID_MARGIN,
+  ARENA_WIDTH + ENEMY_GRID_MARGIN * 2,
+  ARENA_HEIGHT + ENEMY_GRID_MARGIN * 2,
+  ENEMY_GRID_CELL_SIZE,
+);
+const nearbyEnemies: Enemy[] = [];
+// Separate scratch lists, since these queries run while a loop over nearbyEnemies is still open.
+const homingCandidates: Enemy[] = [];
+const blastCandidates: Enemy[] = [];
+const playerBody: ObstacleBody = { x: 0, y: 0, radius: 0 };
+
+// Removed entities are recycled instead of left to the garbage collector, which stutters on mobile.
+const enemyPool = createPool<Enemy>(
+  () => ({
+    id: 0,
+    x: 0,
+    y: 0,
+    prevX: 0,
+    prevY: 0,
+    radius: 0,
+    baseSpeed: 0,
+    hue: 0,
+    hp: 0,
+    maxHp: 0,
+    type: "runner",
+    wobble: 0,
+    drift: 0,
+    elite: false,
+    phase: "chase",
+    phaseEndsAt: 0,
+    aimX: 0,
+    aimY: 0,
+    abilityReadyAt: 0,
+  }),
+  MAX_ENEMIES,
+);
+const projectilePool = createPool<Projectile>(
+  () => ({
+    id: 0,
+    x: 0,
+    y: 0,
+    prevX: 0,
+    prevY: 0,
+    vx: 0,
+    vy: 0,
+    ttl: 0,
+    damage: 0,
+    radius: 0,
+    pierce: 0,
+    behavior: "single_shot",
+    age: 0,
+    range: 0,
+    angle: 0,
+    spin: 0,
+    originX: 0,
+    originY: 0,
+    lastHitId: 0,
+    rehitAt: 0,
+    bounces: 0,
+    homing: 0,
+    blastRadius: 0,
+    splits: 0,
+    shieldBreak: false,
+    secondary: false,
+  }),
+  MAX_PROJECTILES,
+);
+const hostileProjectilePool = createPool<HostileProjectile>(
+  () => ({ id: 0, x: 0, y: 0, prevX: 0, prevY: 0, vx: 0, vy: 0, ttl: 0, radius: 0 }),
+  MAX_HOSTILE_PROJECTILES,
+);
+const orbPool = createPool<Orb>(
+  () => ({ id: 0, x: 0, y: 0, prevX: 0, prevY: 0, radius: 0, xp: 0, score: 0, ttl: 0 }),
+  MAX_ENEMIES,
+);
+const pickupPool = createPool<Pickup>(() => ({ id: 0, x: 0, y: 0, radius: 0, ttl: 0, kind: "shield" }), 64);
+
+export function getEntityPoolStats(round: RoundState): EntityPoolStats {
+  return {
+    enemies: getPoolStats(enemyPool, round.enemies.length),
+    projectiles: getPoolStats(projectilePool, round.projectiles.length),
+    hostileProjectiles: getPoolStats(hostileProjectilePool, round.hostileProjectiles.length),
+    orbs: getPoolStats(orbPool, round.orbs.length),
+    pickups: getPoolStats(pickupPool, round.pickups.length),
+  };
+}
+
+// Hands every live entity back to its pool. The round must not be stepped afterwards.
+export function releaseRound(round: RoundState): void {
+  for (const enemy of round.enemies) {
+    release(enemyPool, enemy);
+  }
+  for (const projectile of round.projectiles) {
+    release(projectilePool, projectile);
+  }
+  for (const projectile of round.hostileProjectiles) {
+    release(hostileProjectilePool, projectile);
+  }
+  for (const orb of round.orbs) {
+    release(orbPool, orb);
+  }
+  for (const pickup of round.pickups) {
+    release(pickupPool, pickup);
+  }
+  round.enemies = [];
+  round.projectiles = [];
+  round.hostileProjectiles = [];
+  round.orbs = [];
+  round.pickups = [];
+}
+
+function nextId(round: RoundState): number {
+  round.lastEntityId += 1;
+  return round.lastEntityId;
+}
+
+function createBaseBuild(heroId: HeroId, metaUpgrades: MetaUpgradeLevels, modeId: GameModeId): BuildState {
+  const hero = getHero(heroId);
+  const baseShield = getGameMode(modeId).oneHit
+    ? 0
+    : Math.max(1, 1 + hero.extraShield + getMetaUpgradeBonus(metaUpgrades, "maxShield"));
+  const agilityBoost = getMetaUpgradeBonus(metaUpgrades, "moveSpeed");
+  const dashReduction = getMetaUpgradeBonus(metaUpgrades, "dashCooldownReduction");
+
+  return {
+    moveSpeed: hero.moveScale + agilityBoost,
+    fireInterval: Math.max(0.18, 0.52 / hero.fireScale),
+    shotDamage: Math.max(1, 1 + hero.damageBonus),
+    multiShot: 1,
+    dashCooldown: Math.max(1.95, 4.8 * hero.dashScale * (1 - dashReduction)),
+    pickupRadius: 28,
+    ricochet: 0,
+    homing: 0,
+    blastRadius: 0,
+    splitShots: 0,
+    maxShield: baseShield,
+    shield: baseShield,
+  };
+}
+
+export function resetRound(
+  heroId: HeroId = "viper",
+  weaponId: WeaponId = "pulse",
+  metaUpgrades: MetaUpgradeLevels = DEFAULT_META_UPGRADES,
+  seed: number = createSeed(),
+  modeId: GameModeId = "endless",
+  arenaId: ArenaId = "yard",
+  aimMode: AimMode = "auto",
+  masteryLevel = 0,
+  secondaryWeaponId: WeaponId | null = null,
+  secondaryMasteryLevel = 0,
+  previous: RoundState | null = null,
+): RoundState {
+  // The round being replaced gives its entities back so the pools stay flat from one round to the next.
+  if (previous) {
+    releaseRound(previous);
+  }
+
+  const rng = createRng(seed);
+  const mode = getGameMode(modeId);
+  return {
+    heroId,
+    weaponId,
+    masteryLevel,
+    secondaryWeaponId: secondaryWeaponId === weaponId ? null : secondaryWeaponId,
+    secondaryMasteryLevel,
+    modeId,
+    arenaId,
+    aimMode,
+    playerX: ARENA_WIDTH / 2,
+    playerY: ARENA_HEIGHT / 2,
+    prevPlayerX: ARENA_WIDTH / 2,
+    prevPlayerY: ARENA_HEIGHT / 2,
+    playerRadius: 12,
+    cameraX: ARENA_WIDTH / 2,
+    cameraY: ARENA_HEIGHT / 2,
+    prevCameraX: ARENA_WIDTH / 2,
+    prevCameraY: ARENA_HEIGHT / 2,
+    obstacles: getArena(arenaId).obstacles,
+    enemies: [],
+    projectiles: [],
+    hostileProjectiles: [],
+    orbs: [],
+    pickups: [],
+    elapsed: 0,
+    score: 0,
+    spawnClock: 0,
+    spawnedEnemies: 0,
+    waveIndex: 0,
+    waveAnnounced: false,
+    kills: 0,
+    secondaryKills: 0,
+    level: 1,
+    xp: 0,
+    xpToNext: 70,
+    combo: 1,
+    comboExpireAt: 0,
+    bestCombo: 1,
+    lastShotAt: 0,
+    lastSecondaryShotAt: 0,
+    dashReadyAt: 0,
+    dashingUntil: 0,
+    dashDirX: 1,
+    dashDirY: 0,
+    aimDirX: 1,
+    aimDirY: 0,
+    invulnerableUntil: 0,
+    shieldsLost: 0,
+    difficulty: createDifficultyState(),
+    powerCharge: 0,
+    frenzyUntil: 0,
+    stasisUntil: 0,
+    nextEliteAt: rollBetween(rng, mode.firstEliteSeconds),
+    nextBossAt: mode.firstBossSeconds,
+    bossesSpawned: 0,
+    bossesDefeated: 0,
+    contractTarget: 0,
+    contractProgress: 0,
+    contractExpireAt: 0,
+    nextContractAt: rollRange(rng, 18, 26),
+    powerGainScale: 1 + getMetaUpgradeBonus(metaUpgrades, "powerGain"),
+    build: createBaseBuild(heroId, metaUpgrades, modeId),
+    upgrades: [],
+    upgradeLevels: {},
+    upgradeChoices: [],
+    rerollsLeft: getMetaUpgradeBonus(metaUpgrades, "rerollCharges"),
+    banishesLeft: getMetaUpgradeBonus(metaUpgrades, "banishCharges"),
+    banishedUpgrades: [],
+    rng,
+    lastEntityId: 0,
+    tick: 0,
+  };
+}
+
+function rollBetween(rng: RngState, range: NumberRange): number {
+  return rollRange(rng, range[0], range[1]);
+}
+
+// Every score gain goes through here so the mode multiplier is applied once, at the source.
+function addScore(round: RoundState, amount: number): number {
+  const gained = amount * getGameMode(round.modeId).scoreMultiplier;
+  round.score += gained;
+  return gained;
+}
+
+function rollSpawnEdge(round: RoundState): ArenaEdge {
+  const edges = getArena(round.arenaId).spawnEdges;
+  return edges[rollInt(round.rng, edges.length)];
+}
+
+function isInView(round: RoundState, x: number, y: number): boolean {
+  return Math.abs(x - round.cameraX) <= VIEW_WIDTH / 2 && Math.abs(y - round.cameraY) <= VIEW_HEIGHT / 2;
+}
+
+// Enemies enter just outside the camera view, only through the arena's open edges.
+function rollEdgePosition(round: RoundState): { x: number; y: number } {
+  const { rng } = round;
+  const left = round.cameraX - VIEW_WIDTH / 2;
+  const top = round.cameraY - VIEW_HEIGHT / 2;
+  const edge = rollSpawnEdge(round);
+  if (edge === "top") {
+    return { x: left + rollRange(rng, -35, VIEW_WIDTH + 35), y: top - EDGE_SPAWN_MARGIN };
+  }
+  if (edge === "right") {
+    return { x: left + VIEW_WIDTH + EDGE_SPAWN_MARGIN, y: top + rollRange(rng, -35, VIEW_HEIGHT + 35) };
+  }
+  if (edge === "bottom") {
+    return { x: left + rollRange(rng, -35, VIEW_WIDTH + 35), y: top + VIEW_HEIGHT + EDGE_SPAWN_MARGIN };
+  }
+  return { x: left - EDGE_SPAWN_MARGIN, y: top + rollRange(rng, -35, VIEW_HEIGHT + 35) };
+}
+
+// The view's half-diagonal plus the edge margin, measured from the player, so the whole ring starts off camera
+// even while the camera trails the player or is held at the arena edge.
+function getRingRadius(round: RoundState): number {
+  const reachX = Math.abs(round.playerX - round.cameraX) + VIEW_WIDTH / 2;
+  const reachY = Math.abs(round.playerY - round.cameraY) + VIEW_HEIGHT / 2;
+  return Math.hypot(reachX, reachY) + EDGE_SPAWN_MARGIN;
+}
+
+function getAbilityInterval(definition: EnemyDefinition): NumberRange | null {
+  return definition.ranged?.fireInterval ?? definition.summon?.interval ?? definition.heal?.interval ?? null;
+}
+
+function placeEnemy(round: RoundState, definition: EnemyDefinition, x: number, y: number, elite: boolean): Enemy {
+  const { elapsed, rng } = round;
+  const enemy = acquire(enemyPool);
+  enemy.id = nextId(round);
+  enemy.x = x;
+  enemy.y = y;
+  enemy.prevX = x;
+  enemy.prevY = y;
+  enemy.type = definition.id;
+  enemy.radius = rollBetween(rng, definition.radius) * (elite ? ELITE_ENEMY.radiusScale : 1);
+  enemy.baseSpeed =
+    (rollBetween(rng, definition.speed) + elapsed * definition.speedPerSecond) * (elite ? ELITE_ENEMY.speedScale : 1);
+  enemy.hue = elite ? ELITE_ENEMY.hue : definition.hue;
+  enemy.hp = elite ? ELITE_ENEMY.hp : definition.hp;
+  enemy.wobble = rollRange(rng, 0, Math.PI * 2);
+  enemy.drift = rollBetween(rng, definition.drift);
+  enemy.elite = elite;
+  enemy.phase = "chase";
+  enemy.phaseEndsAt = 0;
+  const facing = normalize(round.playerX - x, round.playerY - y);
+  enemy.aimX = facing.x;
+  enemy.aimY = facing.y;
+  const abilityInterval = getAbilityInterval(definition);
+  enemy.abilityReadyAt = abilityInterval ? elapsed + rollBetween(rng, abilityInterval) : 0;
+
+  enemy.maxHp = enemy.hp;
+  round.enemies.push(enemy);
+  return enemy;
+}
+
+function pickSpawnDefinition(round: RoundState): EnemyDefinition {
+  let total = 0;
+  for (const candidate of ENEMY_POOL) {
+    total += sampleCurve(candidate.spawn.weights, round.elapsed);
+  }
+
+  let roll = nextRandom(round.rng) * total;
+  for (const candidate of ENEMY_POOL) {
+    roll -= sampleCurve(candidate.spawn.weights, round.elapsed);
+    if (roll < 0) {
+      return candidate;
+    }
+  }
+  return ENEMY_POOL[ENEMY_POOL.length - 1];
+}
+
+function spawnEnemy(round: RoundState, forcedElite = false): void {
+  const { elapsed, rng } = round;
+  const { x, y } = rollEdgePosition(round);
+  const roll = nextRandom(rng);
+  const shouldElite = forcedElite || (elapsed > ELITE_ENEMY.spawn.afterSeconds && roll < ELITE_ENEMY.spawn.chance);
+  const definition = shouldElite ? getEnemyDefinition(ELITE_ENEMY.base) : pickSpawnDefinition(round);
+
+  placeEnemy(round, definition, x, y, shouldElite);
+}
+
+function spawnMinionRing(
+  round: RoundState,
+  x: number,
+  y: number,
+  type: SpawnableEnemyType,
+  count: number,
+  radius: number,
+): void {
+  const definition = getEnemyDefinition(type);
+  for (let i = 0; i < count && round.enemies.length < MAX_ENEMIES; i += 1) {
+    const angle = (Math.PI * 2 * i) / count;
+    placeEnemy(round, definition, x + Math.cos(angle) * radius, y + Math.sin(angle) * radius, false);
+    round.spawnedEnemies += 1;
+  }
+}
+
+function pickWaveDefinition(round: RoundState, wave: WaveDefinition): EnemyDefinition {
+  const entries = Object.entries(wave.mix) as [SpawnableEnemyType, number][];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = nextRandom(round.rng) * total;
+  for (const [type, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) {
+      return getEnemyDefinition(type);
+    }
+  }
+  return getEnemyDefinition(entries[entries.length - 1][0]);
+}
+
+function rollFormationPositions(round: RoundState, wave: WaveDefinition, count: number): { x: number; y: number }[] {
+  const { rng } = round;
+  const positions: { x: number; y: number }[] = [];
+  if (wave.formation === "ring") {
+    const offset = rollRange(rng, 0, Math.PI * 2);
+    const radius = getRingRadius(round);
+    for (let i = 0; i < count; i += 1) {
+      const angle = offset + (Math.PI * 2 * i) / count;
+      positions.push({
+        x: round.playerX + Math.cos(angle) * radius,
+        y: round.playerY + Math.sin(angle) * radius,
+      });
+    }
+  } else if (wave.formation === "side_stampede") {
+    const edge = rollSpawnEdge(round);
+    const left = round.cameraX - VIEW_WIDTH / 2;
+    const top = round.cameraY - VIEW_HEIGHT / 2;
+    for (let i = 0; i < count; i += 1) {
+      const along = (i + 0.5) / count;
+      if (edge === "top" || edge === "bottom") {
+        const y = edge === "top" ? top - EDGE_SPAWN_MARGIN : top + VIEW_HEIGHT + EDGE_SPAWN_MARGIN;
+        positions.push({ x: left + along * VIEW_WIDTH, y });
+      } else {
+        const x = edge === "left" ? left - EDGE_SPAWN_MARGIN : left + VIEW_WIDTH + EDGE_SPAWN_MARGIN;
+        positions.push({ x, y: top + along * VIEW_HEIGHT });
+      }
+    }
+  } else if (wave.formation === "swarm_burst") {
+    const center = rollEdgePosition(round);
+    for (let i = 0; i < count; i += 1) {
+      positions.push({ x: center.x + rollRange(rng, -40, 40), y: center.y + rollRange(rng, -40, 40) });
+    }
+  } else {
+    for (let i = 0; i < count; i += 1) {
+      positions.push(rollEdgePosition(round));
+    }
+  }
+  return positions;
+}
+
+function spawnWaveBatch(round: RoundState, wave: WaveDefinition): void {
+  let alive = 0;
+  for (const enemy of round.enemies) {
+    if (enemy.type !== "boss" && enemy.hp > 0) {
+      alive += 1;
+    }
+  }
+
+  const count = Math.min(wave.batchSize, wave.maxAlive - alive, MAX_ENEMIES - round.enemies.length);
+  if (count <= 0) {
+    return;
+  }
+
+  for (const { x, y } of rollFormationPositions(round, wave, count)) {
+    placeEnemy(round, pickWaveDefinition(round, wave), x, y, false);
+    round.spawnedEnemies += 1;
+  }
+}
+
+// Plays the scripted waves in order, with breathers in the gaps, then falls back to the ramping spawner.
+function runWaveDirector(round: RoundState, mode: GameModeDefinition, events: RoundEvent[]): void {
+  while (round.waveIndex < WAVE_SCRIPT.length && round.elapsed >= WAVE_SCRIPT[round.waveIndex].endSeconds) {
+    round.waveIndex += 1;
+    round.waveAnnounced = false;
+    if (round.waveIndex === WAVE_SCRIPT.length) {
+      events.push({ type: "status", message: "Scripted waves survived. The horde keeps growing from here." });
+    }
+  }
+
+  const wave = WAVE_SCRIPT[round.waveIndex];
+  if (!wave) {
+    const spawnDelay =
+      (clamp(START_SPAWN_DELAY - round.elapsed * 0.018, MIN_SPAWN_DELAY, START_SPAWN_DELAY) * mode.spawnDelayScale) /
+      round.difficulty.intensity;
+    if (round.spawnClock >= spawnDelay) {
+      round.spawnClock = 0;
+      if (round.enemies.length < MAX_ENEMIES) {
+        spawnEnemy(round);
+        round.spawnedEnemies += 1;
+      }
+    }
+    return;
+  }
+
+  if (round.elapsed < wave.startSeconds) {
+    round.spawnClock = 0;
+    return;
+  }
+
+  if (!round.waveAnnounced) {
+    round.waveAnnounced = true;
+    round.spawnClock = 0;
+    spawnWaveBatch(round, wave);
+    events.push({ type: "status", message: `Wave ${round.waveIndex + 1}: ${wave.name}.` });
+    return;
+  }
+
+  if (round.spawnClock >= (wave.spawnInterval * mode.spawnDelayScale) / round.difficulty.intensity) {
+    round.spawnClock = 0;
+    spawnWaveBatch(round, wave);
+  }
+}
+
+function getAverageEnemyDistance(round: RoundState): number {
+  let total = 0;
+  let count = 0;
+  for (const enemy of round.enemies) {
+    if (enemy.hp > 0) {
+      total += Math.hypot(enemy.x - round.playerX, enemy.y - round.playerY);
+      count += 1;
+    }
+  }
+  // An empty view counts as all the room in the world.
+  return count > 0 ? total / count : Math.hypot(VIEW_WIDTH, VIEW_HEIGHT) / 2;
+}
+
+function isBoss(enemy: Enemy): boolean {
+  return enemy.type === "boss" && enemy.hp > 0;
+}
+
+function getBossStage(boss: Enemy): BossStageDefinition {
+  const ratio = boss.hp / boss.maxHp;
+  let stage = BOSS_ENEMY.stages[0];
+  for (const candidate of BOSS_ENEMY.stages) {
+    if (ratio <= candidate.hpRatio) {
+      stage = candidate;
+    }
+  }
+  return stage;
+}
+
+function spawnBoss(round: RoundState): void {
+  const { x, y } = rollEdgePosition(round);
+  const boss = acquire(enemyPool);
+  boss.id = nextId(round);
+  boss.x = x;
+  boss.y = y;
+  boss.prevX = x;
+  boss.prevY = y;
+  boss.type = "boss";
+  boss.radius = BOSS_ENEMY.radius;
+  boss.baseSpeed = BOSS_ENEMY.speed;
+  boss.hue = BOSS_ENEMY.hue;
+  boss.hp = BOSS_ENEMY.hp + BOSS_ENEMY.hpPerBoss * round.bossesSpawned;
+  boss.maxHp = boss.hp;
+  boss.wobble = 0;
+  boss.drift = 0;
+  // Bosses count as elites so hero powers use their reduced elite damage.
+  boss.elite = true;
+  boss.phase = "chase";
+  boss.phaseEndsAt = round.elapsed + BOSS_ENEMY.stages[0].attackCooldown;
+  boss.aimX = 0;
+  boss.aimY = 0;
+  boss.abilityReadyAt = 0;
+  round.enemies.push(boss);
+  round.bossesSpawned += 1;
+}
+
+function spawnProjectile(
+  round: RoundState,
+  vx: number,
+  vy: number,
+  ttl: number,
+  damage: number,
+  radius: number,
+  pierce: number,
+  behavior: WeaponBehaviorId = "single_shot",
+): Projectile | null {
+  if (round.projectiles.length >= MAX_PROJECTILES) {
+    return null;
+  }
+
+  const projectile = acquire(projectilePool);
+  projectile.id = nextId(round);
+  projectile.x = round.playerX;
+  projectile.y = round.playerY;
+  projectile.prevX = round.playerX;
+  projectile.prevY = round.playerY;
+  projectile.vx = vx;
+  projectile.vy = vy;
+  projectile.ttl = ttl;
+  projectile.damage = damage;
+  projectile.radius = radius;
+  projectile.pierce = pierce;
+  projectile.behavior = behavior;
+  projectile.age = 0;
+  projectile.range = 0;
+  projectile.angle = 0;
+  projectile.spin = 0;
+  projectile.originX = round.playerX;
+  projectile.originY = round.playerY;
+  projectile.lastHitId = 0;
+  projectile.rehitAt = 0;
+  projectile.bounces = 0;
+  projectile.homing = 0;
+  projectile.blastRadius = 0;
+  projectile.splits = 0;
+  projectile.shieldBreak = false;
+  projectile.secondary = false;
+  round.projectiles.push(projectile);
+  return projectile;
+}
+
+function spawnHostileProjectile(round: RoundState, enemy: Enemy, ranged: EnemyRangedDefinition): void {
+  if (round.hostileProjectiles.length >= MAX_HOSTILE_PROJECTILES) {
+    return;
+  }
+
+  const direction = normalize(round.playerX - enemy.x, round.playerY - enemy.y);
+  const projectile = acquire(hostileProjectilePool);
+  projectile.id = nextId(round);
+  projectile.x = enemy.x;
+  projectile.y = enemy.y;
+  projectile.prevX = enemy.x;
+  projectile.prevY = enemy.y;
+  projectile.vx = direction.x * ranged.projectileSpeed;
+  projectile.vy = direction.y * ranged.projectileSpeed;
+  projectile.ttl = ranged.projectileTtl;
+  projectile.radius = ranged.projectileRadius;
+  round.hostileProjectiles.push(projectile);
+}
+
+function healNearbyEnemies(round: RoundState, healer: Enemy, heal: EnemyHealDefinition): void {
+  for (const enemy of round.enemies) {
+    const distance = Math.hypot(enemy.x - healer.x, enemy.y - healer.y);
+    if (enemy.type === "boss" || enemy.hp <= 0 || distance > heal.radius) {
+      continue;
+    }
+    enemy.hp = Math.min(enemy.maxHp, enemy.hp + heal.amount);
+  }
+}
+
+// Ranged, summon and heal abilities share one cooldown; content validation allows only one per enemy.
+function triggerEnemyAbility(round: RoundState, enemy: Enemy, definition: EnemyDefinition): void {
+  const interval = getAbilityInterval(definition);
+  if (!interval) {
+    return;
+  }
+
+  if (definition.ranged) {
+    spawnHostileProjectile(round, enemy, definition.ranged);
+  } else if (definition.summon) {
+    const { type, count, radius } = definition.summon;
+    spawnMinionRing(round, enemy.x, enemy.y, type, count, radius);
+  } else if (definition.heal) {
+    healNearbyEnemies(round, enemy, definition.heal);
+  }
+  enemy.abilityReadyAt = round.elapsed + rollBetween(round.rng, interval);
+}
+
+// Whether the enemy's front shield covers the given direction, pointing from the enemy toward the attacker.
+function shieldCovers(enemy: Enemy, towardX: number, towardY: number): boolean {
+  const frontShield = enemy.type === "boss" ? undefined : getEnemyDefinition(enemy.type).frontShield;
+  if (!frontShield) {
+    return false;
+  }
+
+  const toward = normalize(towardX, towardY);
+  const facing = toward.x * enemy.aimX + toward.y * enemy.aimY;
+  return facing >= Math.cos((frontShield.arcDegrees / 2) * (Math.PI / 180));
+}
+
+// Shots travelling into the shield's front arc are blocked unless the weapon breaks shields. Orbit blades carry no
+// velocity, so they strike from the player's side.
+function blocksShot(round: RoundState, enemy: Enemy, projectile: Projectile): boolean {
+  if (projectile.shieldBreak) {
+    return false;
+  }
+  if (projectile.vx === 0 && projectile.vy === 0) {
+    return shieldCovers(enemy, round.playerX - enemy.x, round.playerY - enemy.y);
+  }
+  return shieldCovers(enemy, -projectile.vx, -projectile.vy);
+}
+
+// Turns a shield-bearer's facing toward the player at its turn rate; other enemies face the player at once.
+function turnEnemyFacing(
+  enemy: Enemy,
+  definition: EnemyDefinition,
+  direction: { x: number; y: number },
+  delta: number,
+): void {
+  if (!definition.frontShield) {
+    enemy.aimX = direction.x;
+    enemy.aimY = direction.y;
+    return;
+  }
+
+  const heading = Math.atan2(enemy.aimY, enemy.aimX);
+  const wanted = Math.atan2(direction.y, direction.x);
+  const turn = Math.atan2(Math.sin(wanted - heading), Math.cos(wanted - heading));
+  const maxTurn = definition.frontShield.turnRate * delta;
+  const turned = rotate(enemy.aimX, enemy.aimY, clamp(turn, -maxTurn, maxTurn));
+  enemy.aimX = turned.x;
+  enemy.aimY = turned.y;
+}
+
+function isShotStopped(round: RoundState, shot: { x: number; y: number; radius: number }, hostile: boolean): boolean {
+  for (const obstacle of round.obstacles) {
+    if (stopsShot(obstacle, hostile) && overlapsObstacle(obstacle, shot.x, shot.y, shot.radius)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function spawnOrb(round: RoundState, x: number, y: number, radius: number, xp: number, score: number): void {
+  const orb = acquire(orbPool);
+  orb.id = nextId(round);
+  orb.x = x;
+  orb.y = y;
+  orb.prevX = x;
+  orb.prevY = y;
+  orb.radius = radius;
+  orb.xp = xp;
+  orb.score = score;
+  orb.ttl = 14;
+  round.orbs.push(orb);
+}
+
+function spawnPickup(round: RoundState, x: number, y: number, kind: PickupKind): void {
+  const pickup = acquire(pickupPool);
+  pickup.id = nextId(round);
+  pickup.x = x;
+  pickup.y = y;
+  pickup.radius = 9;
+  pickup.ttl = 15;
+  pickup.kind = kind;
+  round.pickups.push(pickup);
+}
+
+export function getUpgradeLevel(round: Pick<RoundState, "upgradeLevels">, id: UpgradeId): number {
+  return round.upgradeLevels[id] ?? 0;
+}
+
+function canOfferUpgrade(round: RoundState, upgrade: UpgradeDefinition): boolean {
+  if (getUpgradeLevel(round, upgrade.id) >= upgrade.maxLevel || round.banishedUpgrades.includes(upgrade.id)) {
+    return false;
+  }
+  return (upgrade.requires ?? []).every(
+    (requirement) => getUpgradeLevel(round, requirement.upgradeId) >= requirement.level,
+  );
+}
+
+// A ready evolution always takes the first slot; the rest are drawn without repeats, weighted by rarity.
+// `kept` choices stay on offer and are not drawn again.
+function pickUpgradeChoices(round: RoundState, kept: UpgradeId[] = []): UpgradeId[] {
+  const pool = UPGRADE_POOL.filter((upgrade) => canOfferUpgrade(round, upgrade) && !kept.includes(upgrade.id));
+  const choices: UpgradeId[] = [...kept];
+  const evolutionIndex = pool.findIndex(isEvolution);
+  if (evolutionIndex >= 0 && kept.length === 0) {
+    choices.push(swapRemove(pool, evolutionIndex).id);
+  }
+
+  while (choices.length < UPGRADE_CHOICE_COUNT && pool.length > 0) {
+    const total = pool.reduce((sum, upgrade) => sum + UPGRADE_RARITY_WEIGHTS[upgrade.rarity], 0);
+    let roll = nextRandom(round.rng) * total;
+    let index = 0;
+    while (index < pool.length - 1 && roll >= UPGRADE_RARITY_WEIGHTS[pool[index].rarity]) {
+      roll -= UPGRADE_RARITY_WEIGHTS[pool[index].rarity];
+      index += 1;
+    }
+    choices.push(swapRemove(pool, index).id);
+  }
+
+  return choices;
+}
+
+function applyUpgrade(round: RoundState, id: UpgradeId): string {
+  const upgrade = getUpgrade(id);
+  const level = getUpgradeLevel(round, id);
+  if (level >= upgrade.maxLevel) {
+    return `${upgrade.title} is already maxed.`;
+  }
+
+  if (level === 0) {
+    round.upgrades.push(id);
+  }
+  round.upgradeLevels[id] = level + 1;
+  for (const { stat, mode, amount, min, max } of upgrade.effects) {
+    const next = mode === "multiply" ? round.build[stat] * amount : round.build[stat] + amount;
+    round.build[stat] = clamp(next, min ?? Number.NEGATIVE_INFINITY, max ?? Number.POSITIVE_INFINITY);
+  }
+
+  return isEvolution(upgrade)
+    ? `Evolution: ${upgrade.title}!`
+    : `${upgrade.title} Lv ${level + 1}/${upgrade.maxLevel} activated.`;
+}
+
+function rerollUpgradeChoices(round: RoundState): RoundEvent[] {
+  if (round.rerollsLeft <= 0) {
+    return [{ type: "status", message: "No rerolls left this run." }];
+  }
+
+  round.rerollsLeft -= 1;
+  round.upgradeChoices = pickUpgradeChoices(round);
+  return [
+    { type: "upgrade_choices", choices: round.upgradeChoices },
+    { type: "status", message: `Upgrades rerolled. ${round.rerollsLeft} left.` },
+  ];
+}
+
+// The banished slot is refilled when the pool allows; the last remaining choice cannot be banished.
+function banishUpgradeChoice(round: RoundState, id: UpgradeId): RoundEvent[] {
+  if (round.banishesLeft <= 0) {
+    return [{ type: "status", message: "No banishes left this run." }];
+  }
+  if (!round.upgradeChoices.includes(id) || round.upgradeChoices.length <= 1) {
+    return [{ type: "status", message: "That upgrade cannot be banished." }];
+  }
+
+  round.banishesLeft -= 1;
+  round.banishedUpgrades.push(id);
+  round.upgradeChoices = pickUpgradeChoices(
+    round,
+    round.upgradeChoices.filter((choice) => choice !== id),
+  );
+  return [
+    { type: "upgrade_choices", choices: round.upgradeChoices },
+    { type: "status", message: `${getUpgrade(id).title} banished for this run. ${round.banishesLeft} left.` },
+  ];
+}
+
+// Skipping tops up hero power; once power is already full it pays out score instead.
+function skipUpgradeChoice(round: RoundState): RoundEvent[] {
+  round.upgradeChoices = [];
+  if (round.powerCharge < 100) {
+    round.powerCharge = Math.min(100, round.powerCharge + SKIP_POWER_CHARGE);
+    return [{ type: "status", message: `Upgrade skipped: +${SKIP_POWER_CHARGE}% power charge.` }];
+  }
+
+  const gained = addScore(round, SKIP_SCORE_PER_LEVEL * round.level);
+  return [{ type: "status", message: `Upgrade skipped: +${Math.floor(gained)} score.` }];
+}
+
+function isAlive(enemy: Enemy): boolean {
+  return enemy.hp > 0;
+}
+
+// Prefers targets the player can actually hit, so auto-aim does not empty the clip into a pillar.
+function findNearestEnemy(round: RoundState): Enemy | null {
+  const visible = findNearestInGrid(
+    enemyGrid,
+    round.playerX,
+    round.playerY,
+    (enemy) => isAlive(enemy) && hasLineOfSight(round.obstacles, round.playerX, round.playerY, enemy.x, enemy.y),
+  );
+  return visible ?? findNearestInGrid(enemyGrid, round.playerX, round.playerY, isAlive);
+}
+
+// Auto-aim prefers enemies it can actually hurt: a shield turned toward the player only wins when nothing else is left.
+function findAimTarget(round: RoundState, fire: WeaponFireDefinition): Enemy | null {
+  if (fire.shieldBreak) {
+    return findNearestEnemy(round);
+  }
+  const exposed = findNearestInGrid(
+    enemyGrid,
+    round.playerX,
+    round.playerY,
+    (enemy) =>
+      isAlive(enemy) &&
+      !shieldCovers(enemy, round.playerX - enemy.x, round.playerY - enemy.y) &&
+      hasLineOfSight(round.obstacles, round.playerX, round.playerY, enemy.x, enemy.y),
+  );
+  return exposed ?? findNearestEnemy(round);
+}
+
+// Recycles enemies whose hp hit zero this tick.
+function removeSpentEnemies(round: RoundState): void {
+  for (let enemyIndex = round.enemies.length - 1; enemyIndex >= 0; enemyIndex -= 1) {
+    if (round.enemies[enemyIndex].hp <= 0) {
+      release(enemyPool, swapRemove(round.enemies, enemyIndex));
+    }
+  }
+}
+
+function findArcStormTargets(round: RoundState, count: number): Enemy[] {
+  const fullReach = Math.hypot(ARENA_WIDTH, ARENA_HEIGHT) + ENEMY_GRID_MARGIN * 2;
+  let reach = 180;
+  let candidates: Enemy[] = [];
+  while (true) {
+    candidates = querySpatialGrid(enemyGrid, round.playerX, round.playerY, reach, nearbyEnemies).filter(isAlive);
+    if (candidates.length >= count || reach >= fullReach) {
+      break;
+    }
+    reach *= 2;
+  }
+
+  return candidates
+    .sort(
+      (a, b) =>
+        Math.hypot(a.x - round.playerX, a.y - round.playerY) - Math.hypot(b.x - round.playerX, b.y - round.playerY),
+    )
+    .slice(0, count);
+}
+
+function getShotCount(round: RoundState, fire: WeaponFireDefinition): number {
+  return Math.max(fire.minShots, round.build.multiShot + fire.extraShots);
+}
+
+function getShotDamage(round: RoundState, fire: WeaponFireDefinition): number {
+  return Math.max(1, Math.round(round.build.shotDamage * fire.damageScale)) + (fire.bonusDamage ?? 0);
+}
+
+function fireSpread(
+  round: RoundState,
+  fire: WeaponFireDefinition,
+  direction: { x: number; y: number },
+  shotCount: number,
+): void {
+  for (let i = 0; i < shotCount; i += 1) {
+    const offset = shotCount === 1 ? 0 : (i - (shotCount - 1) / 2) * fire.spreadStep;
+    const rotated = rotate(direction.x, direction.y, offset);
+
+    spawnProjectile(
+      round,
+      rotated.x * PROJECTILE_SPEED * fire.speedScale,
+      rotated.y * PROJECTILE_SPEED * fire.speedScale,
+      PROJECTILE_TTL * fire.ttlScale,
+      getShotDamage(round, fire),
+      fire.radius,
+      fire.pierce,
+      fire.behavior,
+    );
+  }
+}
+
+function fireBoomerangs(round: RoundState, fire: WeaponFireDefinition, direction: { x: number; y: number }): void {
+  const shotCount = getShotCount(round, fire);
+  for (let i = 0; i < shotCount; i += 1) {
+    const offset = shotCount === 1 ? 0 : (i - (shotCount - 1) / 2) * fire.spreadStep;
+    const rotated = rotate(direction.x, direction.y, offset);
+    const speed = PROJECTILE_SPEED * fire.speedScale;
+    const boomerang = spawnProjectile(
+      round,
+      rotated.x * speed,
+      rotated.y * speed,
+      PROJECTILE_TTL * fire.ttlScale,
+      getShotDamage(round, fire),
+      fire.radius,
+      0,
+      fire.behavior,
+    );
+    if (boomerang) {
+      boomerang.range = fire.reach ?? 0;
+    }
+  }
+}
+
+// Blades persist while the player keeps firing: each volley refreshes them, tops them up to the
+// shot count and spaces them evenly around the orbit.
+function fireOrbitBlades(round: RoundState, fire: WeaponFireDefinition): void {
+  const bladeCount = getShotCount(round, fire);
+  let existing = 0;
+  for (const projectile of round.projectiles) {
+    if (projectile.behavior === "orbit_blades") {
+      existing += 1;
+    }
+  }
+
+  for (let i = existing; i < bladeCount; i += 1) {
+    spawnProjectile(round, 0, 0, 0, 0, fire.radius, 0, fire.behavior);
+  }
+
+  let baseAngle: number | null = null;
+  let index = 0;
+  for (const blade of round.projectiles) {
+    if (blade.behavior !== "orbit_blades") {
+      continue;
+    }
+    baseAngle ??= blade.angle;
+    blade.angle = baseAngle + (Math.PI * 2 * index) / Math.max(existing, bladeCount);
+    blade.range = fire.reach ?? 0;
+    blade.spin = BLADE_SPIN * fire.speedScale;
+    blade.ttl = PROJECTILE_TTL * fire.ttlScale;
+    blade.damage = getShotDamage(round, fire);
+    applyShotModifiers(round, blade);
+    placeBlade(round, blade);
+    index += 1;
+  }
+}
+
+function placeBlade(round: RoundState, blade: Projectile): void {
+  blade.x = round.playerX + Math.cos(blade.angle) * blade.range;
+  blade.y = round.playerY + Math.sin(blade.angle) * blade.range;
+}
+
+// Reused by chain lightning to track which enemies the current bolt already struck.
+const chainHits: Enemy[] = [];
+
+function findChainTarget(
+  round: RoundState,
+  x: number,
+  y: number,
+  reach: number,
+  direction: { x: number; y: number } | null,
+  shieldBreak: boolean,
+): Enemy | null {
+  let best: Enemy | null = null;
+  let bestDistance = reach;
+  for (const enemy of querySpatialGrid(enemyGrid, x, y, reach, nearbyEnemies)) {
+    const dx = enemy.x - x;
+    const dy = enemy.y - y;
+    const distance = Math.hypot(dx, dy);
+    if (!isAlive(enemy) || distance >= bestDistance || chainHits.includes(enemy)) {
+      continue;
+    }
+    if (direction && dx * direction.x + dy * direction.y < distance * CHAIN_AIM_CONE) {
+      continue;
+    }
+    if (!shieldBreak && shieldCovers(enemy, -dx, -dy)) {
+      continue;
+    }
+    if (hasLineOfSight(round.obstacles, x, y, enemy.x, enemy.y)) {
+      best = enemy;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// Damage lands instantly; the segments left behind are only drawn. Bolts never jump into a shield's front arc.
+function fireChainLightning(
+  round: RoundState,
+  fire: WeaponFireDefinition,
+  direction: { x: number; y: number },
+  secondary: boolean,
+): void {
+  const reach = fire.reach ?? 0;
+  const strikes = 1 + (fire.jumps ?? 0) + round.build.multiShot - 1;
+  const damage = getShotDamage(round, fire);
+  let fromX = round.playerX;
+  let fromY = round.playerY;
+  chainHits.length = 0;
+  const shieldBreak = fire.shieldBreak === true;
+  let target = findChainTarget(round, fromX, fromY, reach * CHAIN_FIRST_REACH_SCALE, direction, shieldBreak);
+  while (target && chainHits.length < strikes) {
+    chainHits.push(target);
+    const segment = spawnProjectile(round, 0, 0, LIGHTNING_SEGMENT_TTL, 0, fire.radius, 0, fire.behavior);
+    if (segment) {
+      segment.originX = fromX;
+      segment.originY = fromY;
+      segment.x = target.x;
+      segment.y = target.y;
+      segment.prevX = target.x;
+      segment.prevY = target.y;
+    }
+
+    target.hp -= damage;
+    if (target.hp <= 0) {
+      onEnemyDefeated(round, target, secondary);
+    }
+    fromX = target.x;
+    fromY = target.y;
+    target = findChainTarget(round, fromX, fromY, reach, null, shieldBreak);
+  }
+  chainHits.length = 0;
+}
+
+function fireFlames(round: RoundState, fire: WeaponFireDefinition, direction: { x: number; y: number }): void {
+  const flameCount = getShotCount(round, fire);
+  const speed = PROJECTILE_SPEED * fire.speedScale;
+  for (let i = 0; i < flameCount; i += 1) {
+    const offset =
+      (i - (flameCount - 1) / 2) * fire.spreadStep + rollRange(round.rng, -fire.spreadStep, fire.spreadStep) / 2;
+    const rotated = rotate(direction.x, direction.y, offset);
+    spawnProjectile(
+      round,
+      rotated.x * speed,
+      rotated.y * speed,
+      PROJECTILE_TTL * fire.ttlScale,
+      getShotDamage(round, fire),
+      fire.radius,
+      fire.pierce,
+      fire.behavior,
+    );
+  }
+}
+
+// Returns whether a projectile survives hitting an enemy. By default it spends one pierce, losing a point of damage.
+function spendPierce(projectile: Projectile): boolean {
+  if (projectile.pierce <= 0) {
+    return false;
+  }
+  projectile.pierce -= 1;
+  projectile.damage = Math.max(1, projectile.damage - 1);
+  return true;
+}
+
+function keepAfterHit(round: RoundState, projectile: Projectile, enemy: Enemy): boolean {
+  projectile.lastHitId = enemy.id;
+  projectile.rehitAt = round.elapsed + PERSISTENT_REHIT_SECONDS;
+  return true;
+}
+
+interface WeaponBehavior {
+  // `secondary` is only needed by behaviors that deal damage while firing.
+  fire: (
+    round: RoundState,
+    fire: WeaponFireDefinition,
+    direction: { x: number; y: number },
+    secondary: boolean,
+  ) => void;
+  // Replaces straight flight for one tick.
+  move?: (round: RoundState, projectile: Projectile, delta: number) => void;
+  // Called after damage lands; returns whether the projectile survives. Defaults to spendPierce.
+  hit?: (round: RoundState, projectile: Projectile, enemy: Enemy) => boolean;
+  // Phasing projectiles pass through obstacles.
+  phasing?: boolean;
+}
+
+// Content packs pick a weapon's behavior by name; the numbers come from the pack.
+const WEAPON_BEHAVIORS: Record<WeaponBehaviorId, WeaponBehavior> = {
+  spread_volley: {
+    fire: (round, fire, direction) => fireSpread(round, fire, direction, getShotCount(round, fire)),
+  },
+  single_shot: {
+    fire: (round, fire, direction) => fireSpread(round, fire, direction, 1),
+  },
+  boomerang: {
+    fire: fireBoomerangs,
+    // Flies straight until it has covered `range`, then homes back and is caught by the player.
+    move: (round, projectile, delta) => {
+      const speed = Math.hypot(projectile.vx, projectile.vy);
+      if (projectile.age * speed >= projectile.range) {
+        const back = normalize(round.playerX - projectile.x, round.playerY - projectile.y);
+        projectile.vx = back.x * speed;
+        projectile.vy = back.y * speed;
+        if (Math.hypot(round.playerX - projectile.x, round.playerY - projectile.y) <= round.playerRadius) {
+          projectile.ttl = 0;
+        }
+      }
+      projectile.x += projectile.vx * delta;
+      projectile.y += projectile.vy * delta;
+    },
+    hit: keepAfterHit,
+    phasing: true,
+  },
+  orbit_blades: {
+    fire: (round, fire) => fireOrbitBlades(round, fire),
+    move: (round, projectile, delta) => {
+      projectile.angle += projectile.spin * delta;
+      placeBlade(round, projectile);
+    },
+    hit: keepAfterHit,
+    phasing: true,
+  },
+  chain_lightning: {
+    fire: fireChainLightning,
+    move: () => undefined,
+    phasing: true,
+  },
+  flame_cone: {
+    fire: fireFlames,
+    // Flames slow down and spread out as they burn.
+    move: (round, projectile, delta) => {
+      const drag = Math.exp(-FLAME_DRAG * delta);
+      projectile.vx *= drag;
+      projectile.vy *= drag;
+      projectile.radius += FLAME_GROWTH * delta;
+      projectile.x += projectile.vx * delta;
+      projectile.y += projectile.vy * delta;
+    },
+  },
+};
+
+// Rounds an offset from the player to the nearest aim heading step.
+export function toAimHeading(dx: number, dy: number): number {
+  const step = Math.round((Math.atan2(dy, dx) / (Math.PI * 2)) * AIM_HEADING_STEPS);
+  return (step + AIM_HEADING_STEPS) % AIM_HEADING_STEPS;
+}
+
+function getAimHeadingDirection(heading: number): { x: number; y: number } {
+  const angle = (heading / AIM_HEADING_STEPS) * Math.PI * 2;
+  return { x: Math.cos(angle), y: Math.sin(angle) };
+}
+
+// Null means hold fire: auto-aim has no target, or a manual aim input is released.
+function getAimDirection(
+  round: RoundState,
+  input: RoundInput,
+  fire: WeaponFireDefinition,
+): { x: number; y: number } | null {
+  if (round.aimMode === "auto") {
+    const target = findAimTarget(round, fire);
+    return target ? normalize(target.x - round.playerX, target.y - round.playerY) : null;
+  }
+
+  return input.aim.active ? getAimHeadingDirection(input.aim.heading) : null;
+}
+
+function spawnVolley(
+  round: RoundState,
+  direction: { x: number; y: number },
+  fire: WeaponFireDefinition,
+  secondary: boolean,
+): void {
+  const firstShot = round.projectiles.length;
+  WEAPON_BEHAVIORS[fire.behavior].fire(round, fire, direction, secondary);
+  for (let index = firstShot; index < round.projectiles.length; index += 1) {
+    const projectile = round.projectiles[index];
+    projectile.shieldBreak = fire.shieldBreak === true;
+    projectile.secondary = secondary;
+    applyShotModifiers(round, projectile);
+  }
+}
+
+// Lightning segments carry no damage, so they never pick up modifiers.
+function applyShotModifiers(round: RoundState, projectile: Projectile): void {
+  if (projectile.damage <= 0) {
+    return;
+  }
+  projectile.bounces = round.build.ricochet;
+  projectile.homing = round.build.homing;
+  projectile.blastRadius = round.build.blastRadius;
+  projectile.splits = round.build.splitShots;
+}
+
+// Turns the shot toward the nearest live enemy in range by at most `homing * delta` radians.
+function steerHomingShot(projectile: Projectile, delta: number): void {
+  let target: Enemy | null = null;
+  let bestDistance = HOMING_RANGE;
+  for (const enemy of querySpatialGrid(enemyGrid, projectile.x, projectile.y, HOMING_RANGE, homingCandidates)) {
+    const distance = Math.hypot(enemy.x - projectile.x, enemy.y - projectile.y);
+    if (isAlive(enemy) && distance < bestDistance) {
+      target = enemy;
+      bestDistance = distance;
+    }
+  }
+  if (!target) {
+    return;
+  }
+
+  const heading = Math.atan2(projectile.vy, projectile.vx);
+  const wanted = Math.atan2(target.y - projectile.y, target.x - projectile.x);
+  const turn = Math.atan2(Math.sin(wanted - heading), Math.cos(wanted - heading));
+  const maxTurn = projectile.homing * delta;
+  const turned = rotate(projectile.vx, projectile.vy, clamp(turn, -maxTurn, maxTurn));
+  projectile.vx = turned.x;
+  projectile.vy = turned.y;
+}
+
+// Reflects the shot off the arena edges while it has bounces left.
+function bounceShot(projectile: Projectile): void {
+  if (projectile.x < 0 || projectile.x > ARENA_WIDTH) {
+    projectile.vx = -projectile.vx;
+    projectile.x = clamp(projectile.x, 0, ARENA_WIDTH);
+    projectile.bounces -= 1;
+  }
+  if (projectile.bounces > 0 && (projectile.y < 0 || projectile.y > ARENA_HEIGHT)) {
+    projectile.vy = -projectile.vy;
+    projectile.y = clamp(projectile.y, 0, ARENA_HEIGHT);
+    projectile.bounces -= 1;
+  }
+}
+
+// Splash damage never splits, and a shield facing the blast soaks it unless the shot breaks shields.
+function explodeShot(round: RoundState, projectile: Projectile, target: Enemy): void {
+  const splash = Math.max(1, Math.round(projectile.damage * BLAST_DAMAGE_SCALE));
+  const { blastRadius } = projectile;
+  for (const enemy of querySpatialGrid(enemyGrid, projectile.x, projectile.y, blastRadius, blastCandidates)) {
+    const distance = Math.hypot(enemy.x - projectile.x, enemy.y - projectile.y);
+    if (enemy === target || !isAlive(enemy) || distance > blastRadius + enemy.radius) {
+      continue;
+    }
+    if (!projectile.shieldBreak && shieldCovers(enemy, projectile.x - enemy.x, projectile.y - enemy.y)) {
+      continue;
+    }
+    enemy.hp -= splash;
+    if (enemy.hp <= 0) {
+      onEnemyDefeated(round, enemy, projectile.secondary);
+    }
+  }
+}
+
+// Forks fly on from the kill, fanned around the shot's heading, at half damage and without further splits.
+function splitShot(round: RoundState, projectile: Projectile): void {
+  const speed = Math.hypot(projectile.vx, projectile.vy);
+  const heading =
+    speed > 0
+      ? { x: projectile.vx / speed, y: projectile.vy / speed }
+      : normalize(projectile.x - round.playerX, projectile.y - round.playerY);
+  const forks = projectile.splits + 1;
+  for (let i = 0; i < forks; i += 1) {
+    const direction = rotate(heading.x, heading.y, (i - (forks - 1) / 2) * SPLIT_SPREAD);
+    const fork = spawnProjectile(
+      round,
+      direction.x * PROJECTILE_SPEED,
+      direction.y * PROJECTILE_SPEED,
+      SPLIT_TTL,
+      Math.max(1, Math.ceil(projectile.damage / 2)),
+      projectile.radius,
+      0,
+    );
+    if (!fork) {
+      return;
+    }
+    fork.x = projectile.x;
+    fork.y = projectile.y;
+    fork.prevX = projectile.x;
+    fork.prevY = projectile.y;
+    fork.bounces = projectile.bounces;
+    fork.homing = projectile.homing;
+    fork.blastRadius = projectile.blastRadius;
+    fork.secondary = projectile.secondary;
+  }
+}
+
+function onEnemyDefeated(round: RoundState, enemy: Enemy, secondary = false): void {
+  const comboActive = round.elapsed <= round.comboExpireAt;
+  round.combo = comboActive ? Math.min(9, round.combo + 1) : 1;
+  round.bestCombo = Math.max(round.bestCombo, round.combo);
+  round.comboExpireAt = round.elapsed + COMBO_WINDOW_SECONDS;
+
+  round.kills += 1;
+  round.secondaryKills += secondary ? 1 : 0;
+  const reward =
+    enemy.type === "boss" ? BOSS_ENEMY : enemy.elite ? ELITE_ENEMY : getEnemyDefinition(enemy.type);
+  addScore(round, Math.floor(reward.score * (1 + (round.combo - 1) * 0.16)));
+  round.powerCharge = Math.min(100, round.powerCharge + reward.powerGain);
+
+  const orbXp = Math.floor(rollBetween(round.rng, reward.orbXp));
+  spawnOrb(round, enemy.x, enemy.y, reward.orbRadius, orbXp, reward.orbScore);
+
+  if (round.contractTarget > 0) {
+    round.contractProgress += 1;
+  }
+
+  if (enemy.type === "boss") {
+    round.bossesDefeated += 1;
+    spawnPickup(round, enemy.x, enemy.y, "cache");
+    return;
+  }
+
+  const split = enemy.elite ? undefined : getEnemyDefinition(enemy.type).split;
+  if (split) {
+    spawnMinionRing(round, enemy.x, enemy.y, split.type, split.count, split.radius);
+  }
+
+  // Drops get more generous when the difficulty director eases off, and rarer when it ramps up.
+  const dropScale = 1 / round.difficulty.intensity;
+  const dropRoll = nextRandom(round.rng);
+  if (enemy.elite || dropRoll < 0.08 * dropScale) {
+    const shieldDrop = dropRoll < 0.028 * dropScale && !getGameMode(round.modeId).oneHit;
+    const kind: PickupKind = shieldDrop ? "shield" : dropRoll < 0.056 * dropScale ? "frenzy" : "stasis";
+    spawnPickup(round, enemy.x, enemy.y, kind);
+  }
+}
+
+function startDash(round: RoundState, input: RoundInput): RoundEvent[] {
+  const cooldownLeft = round.dashReadyAt - round.elapsed;
+  if (cooldownLeft > 0) {
+    return [{ type: "status", message: `Dash cooldown ${cooldownLeft.toFixed(1)}s.` }];
+  }
+
+  let dx = 0;
+  let dy = 0;
+
+  if (input.pointer.active) {
+    dx = input.pointer.x - round.playerX;
+    dy = input.pointer.y - round.playerY;
+  } else {
+    if (input.keyboard.left) {
+      dx -= 1;
+    }
+    if (input.keyboard.right) {
+      dx += 1;
+    }
+    if (input.keyboard.up) {
+      dy -= 1;
+    }
+    if (input.keyboard.down) {
+      dy += 1;
+    }
+
+    // Standing still, a manual aimer dashes where they are aiming; otherwise the dash backs away from danger.
+    if (dx === 0 && dy === 0 && round.aimMode !== "auto" && input.aim.active) {
+      const aim = getAimHeadingDirection(input.aim.heading);
+      dx = aim.x;
+      dy = aim.y;
+    }
+
+    if (dx === 0 && dy === 0) {
+      const nearest = findNearestEnemy(round);
+      if (nearest) {
+        dx = round.playerX - nearest.x;
+        dy = round.playerY - nearest.y;
+      } else {
+        dx = 1;
+        dy = 0;
+      }
+    }
+  }
+
+  const direction = normalize(dx, dy);
+  round.dashDirX = direction.x || 1;
+  round.dashDirY = direction.y;
+  round.dashingUntil = round.elapsed + DASH_DURATION_SECONDS;
+  round.invulnerableUntil = Math.max(round.invulnerableUntil, round.elapsed + DASH_DURATION_SECONDS * 1.05);
+  round.dashReadyAt = round.elapsed + round.build.dashCooldown;
+  return [];
+}
+
+type HeroPowerBehavior<K extends HeroPowerBehaviorId> = (
+  round: RoundState,
+  power: Extract<HeroPowerDefinition, { behavior: K }>,
+) => void;
+
+// Hero powers are chosen by name in the content pack, with their tuning numbers alongside.
+const HERO_POWER_BEHAVIORS: { [K in HeroPowerBehaviorId]: HeroPowerBehavior<K> } = {
+  blade_storm: (round, power) => {
+    round.frenzyUntil = Math.max(round.frenzyUntil, round.elapsed + power.frenzySeconds);
+    round.dashingUntil = round.elapsed + power.dashSeconds;
+    round.invulnerableUntil = Math.max(round.invulnerableUntil, round.elapsed + power.invulnerableSeconds);
+
+    for (const enemy of querySpatialGrid(enemyGrid, round.playerX, round.playerY, power.radius, nearbyEnemies)) {
+      const distance = Math.hypot(enemy.x - round.playerX, enemy.y - round.playerY);
+      if (enemy.hp <= 0 || distance > power.radius) {
+        continue;
+      }
+
+      enemy.hp -= enemy.elite ? power.eliteDamage : power.damage;
+      if (enemy.hp <= 0) {
+        onEnemyDefeated(round, enemy);
+      }
+    }
+    removeSpentEnemies(round);
+  },
+  fortress_guard: (round, power) => {
+    round.build.shield = round.build.maxShield;
+    round.invulnerableUntil = Math.max(round.invulnerableUntil, round.elapsed + power.invulnerableSeconds);
+    round.stasisUntil = Math.max(round.stasisUntil, round.elapsed + power.stasisSeconds);
+  },
+  solar_ring: (round, power) => {
+    for (let i = 0; i < power.shots; i += 1) {
+      const angle = (Math.PI * 2 * i) / power.shots;
+      spawnProjectile(
+        round,
+        Math.cos(angle) * PROJECTILE_SPEED * power.speedScale,
+        Math.sin(angle) * PROJECTILE_SPEED * power.speedScale,
+        power.ttl,
+        round.build.shotDamage + power.bonusDamage,
+        power.radius,
+        0,
+      );
+    }
+    round.frenzyUntil = Math.max(round.frenzyUntil, round.elapsed + power.frenzySeconds);
+  },
+  arc_storm: (round, power) => {
+    round.stasisUntil = Math.max(round.stasisUntil, round.elapsed + power.stasisSeconds);
+    for (const enemy of findArcStormTargets(round, power.targets)) {
+      enemy.hp -= enemy.elite ? power.eliteDamage : power.damage;
+      if (enemy.hp <= 0) {
+        onEnemyDefeated(round, enemy);
+      }
+    }
+    removeSpentEnemies(round);
+  },
+};
+
+function activateHeroPower(round: RoundState): RoundEvent[] {
+  if (round.powerCharge < 100) {
+    return [{ type: "status", message: `Power charging: ${Math.floor(round.powerCharge)}%.` }];
+  }
+
+  const { power } = getHero(round.heroId);
+  (HERO_POWER_BEHAVIORS[power.behavior] as HeroPowerBehavior<HeroPowerBehaviorId>)(round, power);
+  round.powerCharge = 0;
+  return [{ type: "status", message: power.message }];
+}
+
+export function applyRoundAction(round: RoundState, input: RoundInput, action: RoundAction): RoundEvent[] {
+  rebuildSpatialGrid(enemyGrid, round.enemies);
+  if (action.type === "dash") {
+    return startDash(round, input);
+  }
+
+  if (action.type === "power") {
+    return activateHeroPower(round);
+  }
+
+  if (round.upgradeChoices.length === 0) {
+    return [];
+  }
+
+  if (action.type === "reroll") {
+    return rerollUpgradeChoices(round);
+  }
+
+  if (action.type === "banish") {
+    return banishUpgradeChoice(round, action.upgradeId);
+  }
+
+  if (action.type === "skip") {
+    return skipUpgradeChoice(round);
+  }
+
+  const message = applyUpgrade(round, action.upgradeId);
+  round.upgradeChoices = [];
+  return [{ type: "status", message }];
+}
+
+function storePreviousPositions(round: RoundState): void {
+  round.prevPlayerX = round.playerX;
+  round.prevPlayerY = round.playerY;
+  round.prevCameraX = round.cameraX;
+  round.prevCameraY = round.cameraY;
+
+  for (const enemy of round.enemies) {
+    enemy.prevX = enemy.x;
+    enemy.prevY = enemy.y;
+  }
+
+  for (const projectile of round.projectiles) {
+    projectile.prevX = projectile.x;
+    projectile.prevY = projectile.y;
+  }
+
+  for (const projectile of round.hostileProjectiles) {
+    projectile.prevX = projectile.x;
+    projectile.prevY = projectile.y;
+  }
+
+  for (const orb of round.orbs) {
+    orb.prevX = orb.x;
+    orb.prevY = orb.y;
+  }
+}
+
+// Spends a shield on the hit. Returns true when there was no shield left and the run is over.
+function hitPlayer(round: RoundState, events: RoundEvent[]): boolean {
+  if (round.build.shield <= 0) {
+    return true;
+  }
+
+  round.build.shield -= 1;
+  round.shieldsLost += 1;
+  round.invulnerableUntil = round.elapsed + 1;
+  events.push({ type: "shield_lost", shield: round.build.shield, maxShield: round.build.maxShield });
+  return false;
+}
+
+function isOnBelt(belt: ConveyorHazard["belts"][number], x: number, y: number): boolean {
+  return x >= belt.x && x <= belt.x + belt.width && y >= belt.y && y <= belt.y + belt.height;
+}
+
+// Wind shoves the player; belts carry the player and every regular enemy standing on them.
+function applyArenaDrift(round: RoundState, arena: ArenaDefinition, delta: number): void {
+  const { hazard } = arena;
+  if (hazard?.kind === "wind") {
+    round.playerX += getWindDirection(hazard, round.elapsed) * hazard.force * delta;
+  } else if (hazard?.kind === "conveyor") {
+    for (const belt of hazard.belts) {
+      if (isOnBelt(belt, round.playerX, round.playerY)) {
+        round.playerX += belt.vx * delta;
+        round.playerY += belt.vy * delta;
+      }
+      for (const enemy of round.enemies) {
+        if (enemy.type !== "boss" && isOnBelt(belt, enemy.x, enemy.y)) {
+          enemy.x += belt.vx * delta;
+          enemy.y += belt.vy * delta;
+        }
+      }
+    }
+  }
+}
+
+function isInLaser(hazard: LaserHazard, elapsed: number, x: number, y: number, radius: number): boolean {
+  const lane = getLaserLane(hazard, elapsed);
+  if (!lane || !isLaserLive(hazard, elapsed)) {
+    return false;
+  }
+  return Math.abs((lane.axis === "y" ? y : x) - lane.at) < hazard.width / 2 + radius;
+}
+
+function startBossAttack(round: RoundState, boss: Enemy, stage: BossStageDefinition): void {
+  const attack = stage.attacks[rollInt(round.rng, stage.attacks.length)];
+  const direction = normalize(round.playerX - boss.x, round.playerY - boss.y);
+  boss.aimX = direction.x || 1;
+  boss.aimY = direction.y;
+  boss.phase = `${attack}_windup`;
+  boss.phaseEndsAt = round.elapsed + BOSS_ENEMY[attack].windupSeconds * stage.windupScale;
+}
+
+// Chase, then a telegraphed windup, then the attack itself. Returns true when a slam ends the run.
+function updateBoss(
+  round: RoundState,
+  boss: Enemy,
+  delta: number,
+  stasisScale: number,
+  events: RoundEvent[],
+): boolean {
+  const stage = getBossStage(boss);
+  if (boss.phase === "chase") {
+    const toward = normalize(round.playerX - boss.x, round.playerY - boss.y);
+    const direction = steerAroundObstacles(round.obstacles, boss, toward.x, toward.y);
+    boss.x += direction.x * boss.baseSpeed * stasisScale * delta;
+    boss.y += direction.y * boss.baseSpeed * stasisScale * delta;
+    pushOutOfObstacles(round.obstacles, boss);
+    if (round.elapsed >= boss.phaseEndsAt) {
+      startBossAttack(round, boss, stage);
+    }
+    return false;
+  }
+
+  if (boss.phase === "charge") {
+    const step = BOSS_ENEMY.charge.speed * stasisScale * delta;
+    boss.x = clamp(boss.x + boss.aimX * step, boss.radius, ARENA_WIDTH - boss.radius);
+    boss.y = clamp(boss.y + boss.aimY * step, boss.radius, ARENA_HEIGHT - boss.radius);
+    pushOutOfObstacles(round.obstacles, boss);
+  }
+
+  if (round.elapsed < boss.phaseEndsAt) {
+    return false;
+  }
+
+  if (boss.phase === "charge_windup") {
+    boss.phase = "charge";
+    boss.phaseEndsAt = round.elapsed + BOSS_ENEMY.charge.durationSeconds;
+    return false;
+  }
+
+  let defeated = false;
+  if (boss.phase === "slam_windup") {
+    const distance = Math.hypot(round.playerX - boss.x, round.playerY - boss.y);
+    if (distance <= BOSS_ENEMY.slam.radius + round.playerRadius && round.elapsed > round.invulnerableUntil) {
+      defeated = hitPlayer(round, events);
+    }
+  } else if (boss.phase === "summon_windup") {
+    spawnMinionRing(round, boss.x, boss.y, BOSS_ENEMY.summon.type, stage.summonCount, BOSS_ENEMY.summon.radius);
+  }
+
+  boss.phase = "chase";
+  boss.phaseEndsAt = round.elapsed + stage.attackCooldown;
+  return defeated;
+}
+
+// Advances the round by one tick. Callers should pass SIMULATION_STEP_SECONDS so runs replay identically.
+export function stepRound(round: RoundState, input: RoundInput, delta: number): RoundEvent[] {
+  const events: RoundEvent[] = [];
+  const bossesDefeated = round.bossesDefeated;
+  storePreviousPositions(round);
+  round.tick += 1;
+
+  round.elapsed += delta;
+  round.spawnClock += delta;
+  round.powerCharge = Math.min(100, round.powerCharge + delta * 3.6 * round.powerGainScale);
+
+  addScore(round, delta * (9 + round.level * 1.6 + round.elapsed * 0.25));
+
+  const mode = getGameMode(round.modeId);
+  if (mode.timeLimitSeconds !== null && round.elapsed >= mode.timeLimitSeconds) {
+    events.push({ type: "status", message: `${mode.name} cleared. Time is up and you are still standing.` });
+    events.push({ type: "victory" });
+    return events;
+  }
+
+  if (round.contractTarget <= 0 && round.elapsed >= round.nextContractAt) {
+    round.contractTarget = Math.floor(rollRange(round.rng, 8, 13));
+    round.contractProgress = 0;
+    round.contractExpireAt = round.elapsed + rollRange(round.rng, 17, 21);
+    round.nextContractAt = round.elapsed + rollRange(round.rng, 30, 42);
+    events.push({
+      type: "status",
+      message: `Bounty Contract: defeat ${round.contractTarget} enemies before time runs out.`,
+    });
+  }
+
+  if (round.contractTarget > 0 && round.elapsed > round.contractExpireAt) {
+    round.contractTarget = 0;
+    round.contractProgress = 0;
+    events.push({ type: "status", message: "Contract failed. Stay alive for the next offer." });
+  }
+
+  if (round.contractTarget > 0 && round.contractProgress >= round.contractTarget) {
+    const contractReward = Math.floor(addScore(round, 180 + round.level * 32));
+    round.build.shield = Math.min(round.build.maxShield, round.build.shield + 1);
+    round.powerCharge = Math.min(100, round.powerCharge + 28);
+    round.contractTarget = 0;
+    round.contractProgress = 0;
+    events.push({ type: "status", message: `Contract complete: +${contractReward} score and shield restored.` });
+  }
+
+  if (round.elapsed >= round.nextEliteAt) {
+    spawnEnemy(round, true);
+    round.spawnedEnemies += 1;
+    round.nextEliteAt += rollBetween(round.rng, mode.eliteIntervalSeconds) / round.difficulty.intensity;
+    events.push({ type: "status", message: "Elite wave incoming." });
+  }
+
+  if (round.elapsed >= round.nextBossAt) {
+    round.nextBossAt += mode.bossIntervalSeconds;
+    if (!round.enemies.some(isBoss)) {
+      spawnBoss(round);
+      events.push({ type: "status", message: `Boss incoming: ${BOSS_ENEMY.name}. Watch for the telegraphs.` });
+    }
+  }
+
+  if (isDifficultySampleDue(round.difficulty, round.elapsed)) {
+    recordDifficultySample(round.difficulty, {
+      elapsed: round.elapsed,
+      kills: round.kills,
+      spawned: round.spawnedEnemies,
+      shieldLosses: round.shieldsLost,
+      averageEnemyDistance: getAverageEnemyDistance(round),
+    });
+  }
+
+  runWaveDirector(round, mode, events);
+
+  let dx = 0;
+  let dy = 0;
+  if (input.keyboard.left) {
+    dx -= 1;
+  }
+  if (input.keyboard.right) {
+    dx += 1;
+  }
+  if (input.keyboard.up) {
+    dy -= 1;
+  }
+  if (input.keyboard.down) {
+    dy += 1;
+  }
+
+  if (input.pointer.active) {
+    const pointerVector = normalize(input.pointer.x - round.playerX, input.pointer.y - round.playerY);
+    dx = pointerVector.x;
+    dy = pointerVector.y;
+  } else {
+    const keyboardVector = normalize(dx, dy);
+    dx = keyboardVector.x;
+    dy = keyboardVector.y;
+  }
+
+  if (dx !== 0 || dy !== 0) {
+    round.dashDirX = dx;
+    round.dashDirY = dy;
+  }
+
+  const dashing = round.elapsed < round.dashingUntil;
+  const moveX = dashing ? round.dashDirX : dx;
+  const moveY = dashing ? round.dashDirY : dy;
+  const moveSpeed = PLAYER_SPEED * round.build.moveSpeed * (dashing ? DASH_MULTIPLIER : 1);
+
+  round.playerX += moveX * moveSpeed * delta;
+  round.playerY += moveY * moveSpeed * delta;
+  const arena = getArena(round.arenaId);
+  applyArenaDrift(round, arena, delta);
+  round.playerX = clamp(round.playerX, 18, ARENA_WIDTH - 18);
+  round.playerY = clamp(round.playerY, 18, ARENA_HEIGHT - 18);
+  playerBody.x = round.playerX;
+  playerBody.y = round.playerY;
+  playerBody.radius = round.playerRadius;
+  pushOutOfObstacles(round.obstacles, playerBody);
+  round.playerX = playerBody.x;
+  round.playerY = playerBody.y;
+
+  const follow = 1 - Math.exp(-CAMERA_FOLLOW_RATE * delta);
+  round.cameraX = clamp(
+    round.cameraX + (round.playerX - round.cameraX) * follow,
+    VIEW_WIDTH / 2,
+    ARENA_WIDTH - VIEW_WIDTH / 2,
+  );
+  round.cameraY = clamp(
+    round.cameraY + (round.playerY - round.cameraY) * follow,
+    VIEW_HEIGHT / 2,
+    ARENA_HEIGHT - VIEW_HEIGHT / 2,
+  );
+
+  if (
+    arena.hazard?.kind === "laser" &&
+    round.elapsed > round.invulnerableUntil &&
+    isInLaser(arena.hazard, round.elapsed, round.playerX, round.playerY, round.playerRadius) &&
+    hitPlayer(round, events)
+  ) {
+    events.push({ type: "defeated" });
+    return events;
+  }
+
+  const stasisScale = round.stasisUntil > round.elapsed ? 0.63 : 1;
+
+  let slammed = false;
+  // Summoned minions are appended while iterating, so index against the length at the start of the loop.
+  const movingCount = round.enemies.length;
+  for (let enemyIndex = 0; enemyIndex < movingCount; enemyIndex += 1) {
+    const enemy = round.enemies[enemyIndex];
+    if (enemy.type === "boss") {
+      slammed = updateBoss(round, enemy, delta, stasisScale, events) || slammed;
+      continue;
+    }
+
+    const definition = getEnemyDefinition(enemy.type);
+    const direction = normalize(round.playerX - enemy.x, round.playerY - enemy.y);
+    enemy.wobble += delta * definition.wobbleRate;
+    turnEnemyFacing(enemy, definition, direction, delta);
+
+    // keep_distance closes in or backs off toward the preferred range instead of always advancing.
+    let approach = 1;
+    if (definition.movement === "keep_distance" && definition.ranged) {
+      const gap = Math.hypot(round.playerX - enemy.x, round.playerY - enemy.y) - definition.ranged.preferredDistance;
+      approach = clamp(gap / 40, -1, 1);
+    }
+
+    const heading = steerAroundObstacles(
+      round.obstacles,
+      enemy,
+      direction.x * Math.sign(approach),
+      direction.y * Math.sign(approach),
+    );
+    const speed = (enemy.baseSpeed + round.elapsed * 2.2) * definition.moveScale * stasisScale;
+    enemy.x += heading.x * speed * Math.abs(approach) * delta;
+    enemy.y += heading.y * speed * Math.abs(approach) * delta;
+
+    if (definition.movement === "zigzag" || definition.movement === "keep_distance") {
+      const sideX = -direction.y;
+      const sideY = direction.x;
+      const driftPower = Math.sin(enemy.wobble) * enemy.drift;
+      enemy.x += sideX * driftPower * delta;
+      enemy.y += sideY * driftPower * delta;
+    }
+
+    if (definition.movement === "keep_distance") {
+      // Backing off never carries a ranged enemy out of the arena, but it can still walk in from the edge.
+      enemy.x = clamp(enemy.x, Math.min(enemy.prevX, enemy.radius), Math.max(enemy.prevX, ARENA_WIDTH - enemy.radius));
+      enemy.y = clamp(enemy.y, Math.min(enemy.prevY, enemy.radius), Math.max(enemy.prevY, ARENA_HEIGHT - enemy.radius));
+    }
+    pushOutOfObstacles(round.obstacles, enemy);
+
+    if (isInView(round, enemy.x, enemy.y) && enemy.abilityReadyAt > 0 && round.elapsed >= enemy.abilityReadyAt) {
+      triggerEnemyAbility(round, enemy, definition);
+    }
+  }
+
+  rebuildSpatialGrid(enemyGrid, round.enemies);
+
+  if (slammed) {
+    events.push({ type: "defeated" });
+    return events;
+  }
+
+  for (const enemy of querySpatialGrid(enemyGrid, round.playerX, round.playerY, round.playerRadius, nearbyEnemies)) {
+    const collisionDistance = enemy.radius + round.playerRadius;
+    const distance = Math.hypot(enemy.x - round.playerX, enemy.y - round.playerY);
+    if (enemy.hp <= 0 || distance >= collisionDistance || round.elapsed <= round.invulnerableUntil) {
+      continue;
+    }
+
+    if (!hitPlayer(round, events)) {
+      // The enemy is consumed by the shield, not killed, so it skips onEnemyDefeated. Bosses shrug it off.
+      if (enemy.type !== "boss") {
+        enemy.hp = 0;
+      }
+      continue;
+    }
+
+    removeSpentEnemies(round);
+    events.push({ type: "defeated" });
+    return events;
+  }
+
+  for (let projectileIndex = round.hostileProjectiles.length - 1; projectileIndex >= 0; projectileIndex -= 1) {
+    const projectile = round.hostileProjectiles[projectileIndex];
+    projectile.x += projectile.vx * stasisScale * delta;
+    projectile.y += projectile.vy * stasisScale * delta;
+    projectile.ttl -= delta;
+
+    const outOfBounds =
+      projectile.x < -20 ||
+      projectile.x > ARENA_WIDTH + 20 ||
+      projectile.y < -20 ||
+      projectile.y > ARENA_HEIGHT + 20;
+    if (projectile.ttl <= 0 || outOfBounds || isShotStopped(round, projectile, true)) {
+      release(hostileProjectilePool, swapRemove(round.hostileProjectiles, projectileIndex));
+      continue;
+    }
+
+    // Shots pass through while the player is invulnerable, which includes dash i-frames.
+    const distance = Math.hypot(projectile.x - round.playerX, projectile.y - round.playerY);
+    if (distance >= projectile.radius + round.playerRadius || round.elapsed <= round.invulnerableUntil) {
+      continue;
+    }
+
+    release(hostileProjectilePool, swapRemove(round.hostileProjectiles, projectileIndex));
+    if (hitPlayer(round, events)) {
+      removeSpentEnemies(round);
+      events.push({ type: "defeated" });
+      return events;
+    }
+  }
+
+  const frenzyScale = round.frenzyUntil > round.elapsed ? 0.68 : 1;
+  const fireDelay = Math.max(0.12, round.build.fireInterval * frenzyScale);
+  if (round.elapsed - round.lastShotAt >= fireDelay) {
+    const fire = getMasteredFire(round.weaponId, round.masteryLevel);
+    const aim = getAimDirection(round, input, fire);
+    if (aim) {
+      round.aimDirX = aim.x;
+      round.aimDirY = aim.y;
+      spawnVolley(round, aim, fire, false);
+      round.lastShotAt = round.elapsed;
+    }
+  }
+
+  // The secondary keeps its own weapon's pace; hero fire rate and fire-rate upgrades only drive the primary.
+  const secondaryId = round.secondaryWeaponId;
+  const secondaryDelay = secondaryId ? getWeapon(secondaryId).secondaryInterval * frenzyScale : 0;
+  if (secondaryId && round.elapsed - round.lastSecondaryShotAt >= secondaryDelay) {
+    const fire = getMasteredFire(secondaryId, round.secondaryMasteryLevel);
+    const aim = getAimDirection(round, input, fire);
+    if (aim) {
+      spawnVolley(round, aim, fire, true);
+      round.lastSecondaryShotAt = round.elapsed;
+    }
+  }
+
+  for (let projectileIndex = round.projectiles.length - 1; projectileIndex >= 0; projectileIndex -= 1) {
+    const projectile = round.projectiles[projectileIndex];
+    const behavior = WEAPON_BEHAVIORS[projectile.behavior];
+    projectile.age += delta;
+    if (behavior.move) {
+      behavior.move(round, projectile, delta);
+    } else {
+      // Homing and ricochet only bend straight flight.
+      if (projectile.homing > 0) {
+        steerHomingShot(projectile, delta);
+      }
+      projectile.x += projectile.vx * delta;
+      projectile.y += projectile.vy * delta;
+      if (projectile.bounces > 0) {
+        bounceShot(projectile);
+      }
+    }
+    projectile.ttl -= delta;
+
+    const outOfBounds =
+      projectile.x < -20 ||
+      projectile.x > ARENA_WIDTH + 20 ||
+      projectile.y < -20 ||
+      projectile.y > ARENA_HEIGHT + 20;
+    const stopped = !behavior.phasing && isShotStopped(round, projectile, false);
+    if (projectile.ttl <= 0 || outOfBounds || stopped) {
+      release(projectilePool, swapRemove(round.projectiles, projectileIndex));
+      continue;
+    }
+
+    // Lightning segments dealt their damage when fired.
+    if (projectile.damage <= 0) {
+      continue;
+    }
+
+    for (const enemy of querySpatialGrid(enemyGrid, projectile.x, projectile.y, projectile.radius, nearbyEnemies)) {
+      const hitDistance = projectile.radius + enemy.radius;
+      const distance = Math.hypot(projectile.x - enemy.x, projectile.y - enemy.y);
+      const rehitting = enemy.id === projectile.lastHitId && round.elapsed < projectile.rehitAt;
+      if (enemy.hp <= 0 || distance > hitDistance || rehitting) {
+        continue;
+      }
+
+      if (blocksShot(round, enemy, projectile)) {
+        release(projectilePool, swapRemove(round.projectiles, projectileIndex));
+        break;
+      }
+
+      // Hits resolve in a fixed order: damage, explosion, split on a kill, then pierce decides whether the shot
+      // carries on, so a piercing explosive shot blows up at every enemy it passes through.
+      enemy.hp -= projectile.damage;
+      const killed = enemy.hp <= 0;
+      if (killed) {
+        onEnemyDefeated(round, enemy, projectile.secondary);
+      }
+      if (projectile.blastRadius > 0) {
+        explodeShot(round, projectile, enemy);
+      }
+      if (killed && projectile.splits > 0) {
+        splitShot(round, projectile);
+      }
+
+      const survives = behavior.hit ? behavior.hit(round, projectile, enemy) : spendPierce(projectile);
+      if (!survives) {
+        release(projectilePool, swapRemove(round.projectiles, projectileIndex));
+      }
+      break;
+    }
+  }
+
+  removeSpentEnemies(round);
+  if (round.bossesDefeated > bossesDefeated) {
+    events.push({ type: "status", message: `${BOSS_ENEMY.name} defeated. Grab the cache before it fades.` });
+  }
+
+  const pickupRadius = round.build.pickupRadius;
+  for (let orbIndex = round.orbs.length - 1; orbIndex >= 0; orbIndex -= 1) {
+    const orb = round.orbs[orbIndex];
+    orb.ttl -= delta;
+    if (orb.ttl <= 0) {
+      release(orbPool, swapRemove(round.orbs, orbIndex));
+      continue;
+    }
+
+    const dxToPlayer = round.playerX - orb.x;
+    const dyToPlayer = round.playerY - orb.y;
+    const distance = Math.hypot(dxToPlayer, dyToPlayer);
+
+    if (distance < pickupRadius + round.playerRadius) {
+      round.xp += orb.xp;
+      addScore(round, orb.score);
+      release(orbPool, swapRemove(round.orbs, orbIndex));
+      continue;
+    }
+
+    if (distance < pickupRadius * 3) {
+      const pullVector = normalize(dxToPlayer, dyToPlayer);
+      const pullSpeed = clamp(92 + (pickupRadius - distance) * 0.9, 60, 280);
+      orb.x += pullVector.x * pullSpeed * delta;
+      orb.y += pullVector.y * pullSpeed * delta;
+    }
+  }
+
+  for (let pickupIndex = round.pickups.length - 1; pickupIndex >= 0; pickupIndex -= 1) {
+    const pickup = round.pickups[pickupIndex];
+    pickup.ttl -= delta;
+    if (pickup.ttl <= 0) {
+      release(pickupPool, swapRemove(round.pickups, pickupIndex));
+      continue;
+    }
+
+    const distance = Math.hypot(pickup.x - round.playerX, pickup.y - round.playerY);
+    if (distance > pickup.radius + round.playerRadius + 2) {
+      continue;
+    }
+
+    if (pickup.kind === "shield") {
+      round.build.shield = Math.min(round.build.maxShield, round.build.shield + 1);
+    } else if (pickup.kind === "cache") {
+      round.build.shield = round.build.maxShield;
+      round.powerCharge = 100;
+      const cacheScore = Math.floor(addScore(round, BOSS_ENEMY.cacheScore * round.bossesDefeated));
+      events.push({ type: "status", message: `Boss cache opened: +${cacheScore} score, shields and power full.` });
+    } else if (pickup.kind === "frenzy") {
+      round.frenzyUntil = Math.max(round.frenzyUntil, round.elapsed + 8);
+    } else {
+      round.stasisUntil = Math.max(round.stasisUntil, round.elapsed + 6.5);
+    }
+
+    release(pickupPool, swapRemove(round.pickups, pickupIndex));
+  }
+
+  if (round.elapsed > round.comboExpireAt) {
+    round.combo = 1;
+  }
+
+  if (round.xp >= round.xpToNext) {
+    round.xp -= round.xpToNext;
+    round.level += 1;
+    round.xpToNext = Math.floor(round.xpToNext * 1.22 + 16);
+    round.upgradeChoices = pickUpgradeChoices(round);
+    if (round.upgradeChoices.length > 0) {
+      events.push({ type: "level_up", level: round.level, choices: round.upgradeChoices });
+    } else {
+      events.push({ type: "status", message: `Level ${round.level}. Every upgrade is maxed.` });
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,20 @@
+import {
+  createSimulationRuntime,
+  handleSimulationRequest,
+  type SimulationRequest,
+  type SimulationUpdate,
+} from "@/lib/game/live-session";
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<SimulationRequest>) => void) | null;
+  postMessage: (update: SimulationUpdate) => void;
+};
+
+const runtime = createSimulationRuntime();
+
+workerScope.onmessage = (event) => {
+  const update = handleSimulationRequest(runtime, event.data);
+  if (update) {
+    workerScope.postMessage(update);
+  }
+};
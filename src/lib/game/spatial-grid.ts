@@ -0,0 +1,137 @@
+export interface GridItem {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface SpatialGrid<T extends GridItem> {
+  originX: number;
+  originY: number;
+  cellSize: number;
+  columns: number;
+  rows: number;
+  cells: T[][];
+  maxRadius: number;
+  size: number;
+}
+
+export function createSpatialGrid<T extends GridItem>(
+  originX: number,
+  originY: number,
+  width: number,
+  height: number,
+  cellSize: number,
+): SpatialGrid<T> {
+  const columns = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  return {
+    originX,
+    originY,
+    cellSize,
+    columns,
+    rows,
+    cells: Array.from({ length: columns * rows }, () => []),
+    maxRadius: 0,
+    size: 0,
+  };
+}
+
+function columnOf<T extends GridItem>(grid: SpatialGrid<T>, x: number): number {
+  return Math.min(grid.columns - 1, Math.max(0, Math.floor((x - grid.originX) / grid.cellSize)));
+}
+
+function rowOf<T extends GridItem>(grid: SpatialGrid<T>, y: number): number {
+  return Math.min(grid.rows - 1, Math.max(0, Math.floor((y - grid.originY) / grid.cellSize)));
+}
+
+// Items are bucketed by center only; queries widen by the largest radius seen so nothing is missed.
+export function rebuildSpatialGrid<T extends GridItem>(grid: SpatialGrid<T>, items: readonly T[]): void {
+  for (const cell of grid.cells) {
+    cell.length = 0;
+  }
+
+  grid.maxRadius = 0;
+  grid.size = items.length;
+  for (const item of items) {
+    grid.cells[rowOf(grid, item.y) * grid.columns + columnOf(grid, item.x)].push(item);
+    grid.maxRadius = Math.max(grid.maxRadius, item.radius);
+  }
+}
+
+// Collects every item whose circle may overlap the query circle. Callers still do the exact distance test.
+export function querySpatialGrid<T extends GridItem>(
+  grid: SpatialGrid<T>,
+  x: number,
+  y: number,
+  radius: number,
+  out: T[],
+): T[] {
+  out.length = 0;
+  const reach = radius + grid.maxRadius;
+  const minColumn = columnOf(grid, x - reach);
+  const maxColumn = columnOf(grid, x + reach);
+  const minRow = rowOf(grid, y - reach);
+  const maxRow = rowOf(grid, y + reach);
+
+  for (let row = minRow; row <= maxRow; row += 1) {
+    for (let column = minColumn; column <= maxColumn; column += 1) {
+      for (const item of grid.cells[row * grid.columns + column]) {
+        out.push(item);
+      }
+    }
+  }
+
+  return out;
+}
+
+// Searches outward ring by ring and stops once no unvisited cell can beat the best match.
+export function findNearestInGrid<T extends GridItem>(
+  grid: SpatialGrid<T>,
+  x: number,
+  y: number,
+  accept: (item: T) => boolean = () => true,
+): T | null {
+  if (grid.size === 0) {
+    return null;
+  }
+
+  const centerColumn = columnOf(grid, x);
+  const centerRow = rowOf(grid, y);
+  const maxRing = Math.max(grid.columns, grid.rows);
+  let nearest: T | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+
+  for (let ring = 0; ring <= maxRing; ring += 1) {
+    if (nearest && (ring - 1) * grid.cellSize > bestDistance) {
+      break;
+    }
+
+    for (let row = centerRow - ring; row <= centerRow + ring; row += 1) {
+      if (row < 0 || row >= grid.rows) {
+        continue;
+      }
+
+      const onEdgeRow = row === centerRow - ring || row === centerRow + ring;
+      const step = onEdgeRow ? 1 : ring * 2;
+      for (let column = centerColumn - ring; column <= centerColumn + ring; column += Math.max(1, step)) {
+        if (column < 0 || column >= grid.columns) {
+          continue;
+        }
+
+        for (const item of grid.cells[row * grid.columns + column]) {
+          if (!accept(item)) {
+            continue;
+          }
+
+          const distance = Math.hypot(item.x - x, item.y - y);
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            nearest = item;
+          }
+        }
+      }
+    }
+  }
+
+  return nearest;
+}
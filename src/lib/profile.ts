@@ -8,9 +8,16 @@ export type SessionEventName =
   | "rewarded_ad_failed"
   | "mission_claimed"
   | "weapon_unlocked"
+  | "weapon_mastery_up"
+  | "arena_unlocked"
   | "meta_upgrade_purchased";
 
-export type WeaponId = "pulse" | "scatter" | "lance";
+export type WeaponId = "pulse" | "scatter" | "lance" | "boomerang" | "blades" | "tesla" | "flamer";
+export type GameModeId = "endless" | "blitz" | "hardcore" | "boss_rush";
+export type ArenaId = "yard" | "rooftop" | "factory" | "neon_grid";
+// auto fires at the nearest enemy; mouse fires at the cursor while a button is held; twin_stick fires along the
+// arrow keys or right stick.
+export type AimMode = "auto" | "mouse" | "twin_stick";
 
 export interface DailyMissionProgress {
   kills: number;
@@ -22,6 +29,14 @@ export interface MetaUpgradeLevels {
   armor: number;
   agility: number;
   reactor: number;
+  tactics: number;
+  veto: number;
+}
+
+// Lifetime totals for one weapon; mastery levels are derived from them.
+export interface WeaponMastery {
+  kills: number;
+  playSeconds: number;
 }
 
 export interface LeaderboardEntry {
@@ -30,7 +45,10 @@ export interface LeaderboardEntry {
   kills: number;
   hero: string;
   weapon: WeaponId;
+  secondaryWeapon: WeaponId | null;
+  mode: GameModeId;
   at: number;
+  replayId: string | null;
 }
 
 export interface SessionEvent {
@@ -55,7 +73,14 @@ export interface PlayerProfile {
   rewardedLastClaimAt: number;
   rewardedLifetimeClaims: number;
   selectedWeapon: WeaponId;
+  // Optional second slot; always an unlocked weapon other than selectedWeapon.
+  selectedSecondaryWeapon: WeaponId | null;
   unlockedWeapons: WeaponId[];
+  weaponMastery: Record<WeaponId, WeaponMastery>;
+  selectedArena: ArenaId;
+  unlockedArenas: ArenaId[];
+  arenaBestScores: Record<ArenaId, number>;
+  aimMode: AimMode;
   metaUpgrades: MetaUpgradeLevels;
   dailyMissionDay: string;
   dailyMissionProgress: DailyMissionProgress;
@@ -68,7 +93,13 @@ export interface PlayerProfile {
 export const PROFILE_STORAGE_KEY = "stickparty.profile.v1";
 const MAX_EVENT_LOG = 120;
 const MAX_LEADERBOARD_ROWS = 15;
-const WEAPON_IDS: WeaponId[] = ["pulse", "scatter", "lance"];
+export const WEAPON_IDS: WeaponId[] = ["pulse", "scatter", "lance", "boomerang", "blades", "tesla", "flamer"];
+export const GAME_MODE_IDS: GameModeId[] = ["endless", "blitz", "hardcore", "boss_rush"];
+export const ARENA_IDS: ArenaId[] = ["yard", "rooftop", "factory", "neon_grid"];
+export const AIM_MODES: AimMode[] = ["auto", "mouse", "twin_stick"];
+// Mastery points needed to reach each level; index 0 is the unmastered start.
+export const MASTERY_LEVEL_POINTS = [0, 150, 400, 900, 1800, 3500];
+export const MAX_MASTERY_LEVEL = MASTERY_LEVEL_POINTS.length - 1;
 
 function safeInteger(value: unknown, fallback = 0): number {
   const parsed = typeof value === "number" ? value : Number(value);
@@ -104,6 +135,56 @@ function normalizeWeaponId(value: unknown, fallback: WeaponId): WeaponId {
   return fallback;
 }
 
+export function normalizeGameModeId(value: unknown, fallback: GameModeId = "endless"): GameModeId {
+  if (typeof value === "string" && GAME_MODE_IDS.includes(value as GameModeId)) {
+    return value as GameModeId;
+  }
+
+  return fallback;
+}
+
+export function normalizeArenaId(value: unknown, fallback: ArenaId = "yard"): ArenaId {
+  if (typeof value === "string" && ARENA_IDS.includes(value as ArenaId)) {
+    return value as ArenaId;
+  }
+
+  return fallback;
+}
+
+export function normalizeAimMode(value: unknown, fallback: AimMode = "auto"): AimMode {
+  if (typeof value === "string" && AIM_MODES.includes(value as AimMode)) {
+    return value as AimMode;
+  }
+
+  return fallback;
+}
+
+function normalizeArenaList(value: unknown): ArenaId[] {
+  if (!Array.isArray(value)) {
+    return ["yard"];
+  }
+
+  const picked = value
+    .filter((entry): entry is string => typeof entry === "string")
+    .filter((entry): entry is ArenaId => ARENA_IDS.includes(entry as ArenaId));
+
+  const unique = Array.from(new Set(picked));
+  if (!unique.includes("yard")) {
+    unique.unshift("yard");
+  }
+  return unique;
+}
+
+function normalizeArenaBestScores(value: unknown): Record<ArenaId, number> {
+  const candidate = value && typeof value === "object" ? (value as Partial<Record<ArenaId, number>>) : {};
+  return {
+    yard: safeInteger(candidate.yard),
+    rooftop: safeInteger(candidate.rooftop),
+    factory: safeInteger(candidate.factory),
+    neon_grid: safeInteger(candidate.neon_grid),
+  };
+}
+
 function normalizeWeaponList(value: unknown): WeaponId[] {
   if (!Array.isArray(value)) {
     return ["pulse"];
@@ -120,12 +201,59 @@ function normalizeWeaponList(value: unknown): WeaponId[] {
   return unique;
 }
 
+function createWeaponMastery(): Record<WeaponId, WeaponMastery> {
+  const mastery = {} as Record<WeaponId, WeaponMastery>;
+  for (const weaponId of WEAPON_IDS) {
+    mastery[weaponId] = { kills: 0, playSeconds: 0 };
+  }
+  return mastery;
+}
+
+function normalizeWeaponMastery(value: unknown): Record<WeaponId, WeaponMastery> {
+  const candidate =
+    value && typeof value === "object" ? (value as Partial<Record<WeaponId, Partial<WeaponMastery>>>) : {};
+  const mastery = createWeaponMastery();
+  for (const weaponId of WEAPON_IDS) {
+    const entry = candidate[weaponId];
+    if (entry && typeof entry === "object") {
+      mastery[weaponId] = { kills: safeInteger(entry.kills), playSeconds: safeInteger(entry.playSeconds) };
+    }
+  }
+  return mastery;
+}
+
+// Profiles saved before mastery existed only kept per-weapon history on the leaderboard, so those runs seed it.
+function masteryFromLeaderboard(leaderboard: LeaderboardEntry[]): Record<WeaponId, WeaponMastery> {
+  const mastery = createWeaponMastery();
+  for (const entry of leaderboard) {
+    mastery[entry.weapon].kills += entry.kills;
+    mastery[entry.weapon].playSeconds += entry.survivalSeconds;
+  }
+  return mastery;
+}
+
+// Every kill is a point and every minute played is ten.
+export function getMasteryPoints(mastery: WeaponMastery): number {
+  return mastery.kills + Math.floor(mastery.playSeconds / 6);
+}
+
+export function getMasteryLevel(mastery: WeaponMastery): number {
+  const points = getMasteryPoints(mastery);
+  let level = 0;
+  while (level < MAX_MASTERY_LEVEL && points >= MASTERY_LEVEL_POINTS[level + 1]) {
+    level += 1;
+  }
+  return level;
+}
+
 function normalizeMetaUpgrades(value: unknown): MetaUpgradeLevels {
   const candidate = value && typeof value === "object" ? (value as Partial<MetaUpgradeLevels>) : {};
   return {
     armor: Math.min(7, safeInteger(candidate.armor)),
     agility: Math.min(7, safeInteger(candidate.agility)),
     reactor: Math.min(7, safeInteger(candidate.reactor)),
+    tactics: Math.min(7, safeInteger(candidate.tactics)),
+    veto: Math.min(7, safeInteger(candidate.veto)),
   };
 }
 
@@ -167,7 +295,12 @@ function clampLeaderboard(value: unknown): LeaderboardEntry[] {
       kills: safeInteger(entry.kills),
       hero: safeText(entry.hero, "Unknown"),
       weapon: normalizeWeaponId(entry.weapon, "pulse"),
+      // Entries saved before the secondary slot existed were single-weapon runs.
+      secondaryWeapon: entry.secondaryWeapon ? normalizeWeaponId(entry.secondaryWeapon, "pulse") : null,
+      // Entries saved before modes existed were all endless runs.
+      mode: normalizeGameModeId(entry.mode),
       at: safeInteger(entry.at),
+      replayId: typeof entry.replayId === "string" ? entry.replayId.slice(0, 48) : null,
     }))
     .sort((a, b) => b.score - a.score || b.survivalSeconds - a.survivalSeconds)
     .slice(0, MAX_LEADERBOARD_ROWS);
@@ -230,11 +363,24 @@ export function createDefaultProfile(now = Date.now()): PlayerProfile {
     rewardedLastClaimAt: 0,
     rewardedLifetimeClaims: 0,
     selectedWeapon: "pulse",
+    selectedSecondaryWeapon: null,
     unlockedWeapons: ["pulse"],
+    weaponMastery: createWeaponMastery(),
+    selectedArena: "yard",
+    unlockedArenas: ["yard"],
+    arenaBestScores: {
+      yard: 0,
+      rooftop: 0,
+      factory: 0,
+      neon_grid: 0,
+    },
+    aimMode: "auto",
     metaUpgrades: {
       armor: 0,
       agility: 0,
       reactor: 0,
+      tactics: 0,
+      veto: 0,
     },
     dailyMissionDay: today,
     dailyMissionProgress: {
@@ -286,6 +432,13 @@ export function normalizeProfile(candidate: unknown, now = Date.now()): PlayerPr
   const draft = candidate as Partial<PlayerProfile>;
   const unlockedWeapons = normalizeWeaponList(draft.unlockedWeapons);
   const selectedWeapon = normalizeWeaponId(draft.selectedWeapon, base.selectedWeapon);
+  const primaryWeapon = unlockedWeapons.includes(selectedWeapon) ? selectedWeapon : unlockedWeapons[0] ?? "pulse";
+  const secondaryWeapon = draft.selectedSecondaryWeapon
+    ? normalizeWeaponId(draft.selectedSecondaryWeapon, primaryWeapon)
+    : primaryWeapon;
+  const unlockedArenas = normalizeArenaList(draft.unlockedArenas);
+  const selectedArena = normalizeArenaId(draft.selectedArena, base.selectedArena);
+  const leaderboard = clampLeaderboard(draft.leaderboard);
   const normalized: PlayerProfile = {
     ...base,
     id: safeText(draft.id, base.id),
@@ -302,13 +455,25 @@ export function normalizeProfile(candidate: unknown, now = Date.now()): PlayerPr
     rewardedDay: safeText(draft.rewardedDay, base.rewardedDay),
     rewardedLastClaimAt: safeInteger(draft.rewardedLastClaimAt),
     rewardedLifetimeClaims: safeInteger(draft.rewardedLifetimeClaims),
-    selectedWeapon: unlockedWeapons.includes(selectedWeapon) ? selectedWeapon : unlockedWeapons[0] ?? "pulse",
+    selectedWeapon: primaryWeapon,
+    selectedSecondaryWeapon:
+      secondaryWeapon !== primaryWeapon && unlockedWeapons.includes(secondaryWeapon) ? secondaryWeapon : null,
     unlockedWeapons,
+    weaponMastery: draft.weaponMastery
+      ? normalizeWeaponMastery(draft.weaponMastery)
+      : masteryFromLeaderboard(leaderboard),
+    selectedArena: unlockedArenas.includes(selectedArena) ? selectedArena : "yard",
+    unlockedArenas,
+    // Profiles saved before arenas existed only ever played the yard, so their best score belongs to it.
+    arenaBestScores: draft.arenaBestScores
+      ? normalizeArenaBestScores(draft.arenaBestScores)
+      : { ...base.arenaBestScores, yard: safeInteger(draft.bestScore) },
+    aimMode: normalizeAimMode(draft.aimMode),
     metaUpgrades: normalizeMetaUpgrades(draft.metaUpgrades),
     dailyMissionDay: safeText(draft.dailyMissionDay, base.dailyMissionDay),
     dailyMissionProgress: normalizeMissionProgress(draft.dailyMissionProgress),
     dailyMissionClaimed: normalizeMissionClaimed(draft.dailyMissionClaimed),
-    leaderboard: clampLeaderboard(draft.leaderboard),
+    leaderboard,
     tutorialSeen: safeBoolean(draft.tutorialSeen),
     eventLog: clampEventList(draft.eventLog),
   };